@@ -1,9 +1,20 @@
 import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
-import type { Triple, Schema, ExtractedEntity, ExtractionStep, DocumentChunk, PaperCore, FitReport, SchemaProposal, ProcessingStats, LlmConfig, PromptCollection } from './types';
+import type { Triple, Schema, ExtractedEntity, ExtractionStep, DocumentChunk, PaperCore, FitReport, SchemaProposal, ProcessingStats, LlmConfig, PromptCollection, LlmStage, ModelPriceTable, StructuringMethod, ChunkCoverage, RemovedPageText, OcrPageConfidence, BibliographicMetadata, ReferenceEntry } from './types';
 import { View } from './types';
-import { extractEntities, extractRelationships, extractPaperCore, generateSchemaCapabilityProfile, generateFitReport } from './services/extractionService';
-import { parsePdfToText } from './services/pdfParsingService';
+import { extractEntitiesFromChunks, extractRelationshipsFromChunks, extractPaperCore, generateSchemaCapabilityProfile, generateFitReport } from './services/extractionService';
+import { parsePdf } from './services/pdfParsingService';
+import { attachTables, citeEvidencePages, pageRange } from './services/pdfLayout';
+import type { ParsedPdf } from './services/pdfParsingService';
 import { llmChunkDocument } from './services/llmParsingService';
+import { heuristicChunkDocument } from './services/heuristicStructurer';
+import { measureCoverage } from './services/chunkAnchoring';
+import { ACCEPTED_EXTENSIONS, detectDocumentFormat, parseMarkdownDocument, parseXmlDocument } from './services/documentFormats';
+import { linkTripleCitations, parseReferenceList } from './services/citationLinking';
+import { extractMetadataFromFirstPage, extractMetadataFromPdfInfo, findInLibrary, mergeMetadata, parseReferenceLibrary, PartialMetadata, tripleCitation } from './services/bibliographicMetadata';
+import { providerRequiresApiKey, LlmCallHooks } from './services/llmProviderService';
+import { createUsageLedger, priceForConfig, UsageLedger } from './services/usageAccounting';
+import { ResponseValidationError } from './services/responseValidation';
+import { buildCacheKey, readCachedResponse, writeCachedResponse } from './services/responseCache';
 import Header from './components/Header';
 import TripleCard from './components/TripleCard';
 import SchemaViewer from './components/SchemaViewer';
@@ -16,7 +27,7 @@ import ExtractionAnalysis from './components/ExtractionAnalysis';
 import SettingsModal from './components/SettingsModal';
 import PromptManager from './components/PromptManager';
 import { BrainCircuitIcon, SchemaIcon, LoaderIcon, StopIcon, SparklesIcon, UploadCloudIcon, ShareIcon, LayoutListIcon, BookOpenIcon, AlertTriangleIcon } from './components/icons';
-import { DEFAULT_SCHEMA } from './constants';
+import { DEFAULT_SCHEMA, DEFAULT_MODEL_PRICES } from './constants';
 import { DEFAULT_PROMPTS } from './prompts';
 
 interface ManagedFile {
@@ -24,11 +35,21 @@ interface ManagedFile {
     file: File;
     rawText?: string;
     chunks?: DocumentChunk[];
-    status: { step: ExtractionStep; message?: string };
+    coverage?: ChunkCoverage;
+    removedText?: RemovedPageText[];
+    metadata?: BibliographicMetadata;
+    references?: ReferenceEntry[];
+    status: { step: ExtractionStep; message?: string; queuePosition?: number; ocrPages?: OcrPageConfidence[] };
 }
 
 type ActiveResultTab = 'analysis' | 'triples' | 'entities' | 'graph';
 
+// Triples reporting the paper's own observations, or restating work it cites.
+type TripleFilter = 'all' | 'new' | 'cited';
+
+// Characters treated as the first page of documents without pages, for reading their metadata.
+const FIRST_PAGE_CHARS = 3000;
+
 const semverMinorBump = (version: string): string => {
     let [major, minor, patch] = version.split('.').map(Number);
     minor++;
@@ -49,11 +70,14 @@ const App: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [activeView, setActiveView] = useState<View>(View.Extractor);
   const [activeResultTab, setActiveResultTab] = useState<ActiveResultTab>('analysis');
+  const [tripleFilter, setTripleFilter] = useState<TripleFilter>('all');
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   
   const abortControllerRef = useRef<AbortController | null>(null);
+  const fileAbortControllersRef = useRef<Map<string, AbortController>>(new Map());
   const [processingStats, setProcessingStats] = useState<ProcessingStats | null>(null);
   const extractionStartTimeRef = useRef<number | null>(null);
+  const usageLedgerRef = useRef<UsageLedger | null>(null);
   const [entityExtractionDuration, setEntityExtractionDuration] = useState<number | null>(null);
 
   const [isDragging, setIsDragging] = useState(false);
@@ -72,13 +96,32 @@ const App: React.FC = () => {
   });
 
   const [prompts, setPrompts] = useState<PromptCollection>(() => {
-    try { const saved = localStorage.getItem('prompts'); return saved ? JSON.parse(saved) : DEFAULT_PROMPTS; }
+    // Saved prompts are merged over the defaults so prompts added since they were saved are present.
+    try { const saved = localStorage.getItem('prompts'); return saved ? { ...DEFAULT_PROMPTS, ...JSON.parse(saved) } : DEFAULT_PROMPTS; }
     catch(e) { return DEFAULT_PROMPTS; }
   });
 
+  const [modelPrices, setModelPrices] = useState<ModelPriceTable>(() => {
+    try { const saved = localStorage.getItem('modelPrices'); return saved ? JSON.parse(saved) : DEFAULT_MODEL_PRICES; }
+    catch(e) { return DEFAULT_MODEL_PRICES; }
+  });
+
+  const [structuringMethod, setStructuringMethod] = useState<StructuringMethod>(() => (localStorage.getItem('structuringMethod') as StructuringMethod) || 'llmWithFallback');
+
+  // Entries of the user's BibTeX or CSL-JSON export, matched to papers by DOI or title.
+  const [referenceLibrary, setReferenceLibrary] = useState<PartialMetadata[]>(() => {
+    try { const saved = localStorage.getItem('referenceLibrary'); return saved ? JSON.parse(saved) : []; }
+    catch(e) { return []; }
+  });
+
+  const isApiKeyMissing = providerRequiresApiKey(llmConfig) && !llmConfig.apiKey;
+
   useEffect(() => { localStorage.setItem('deepTimeSchema', JSON.stringify(schema)); }, [schema]);
   useEffect(() => { localStorage.setItem('llmConfig', JSON.stringify(llmConfig)); }, [llmConfig]);
   useEffect(() => { localStorage.setItem('prompts', JSON.stringify(prompts)); }, [prompts]);
+  useEffect(() => { localStorage.setItem('modelPrices', JSON.stringify(modelPrices)); }, [modelPrices]);
+  useEffect(() => { localStorage.setItem('structuringMethod', structuringMethod); }, [structuringMethod]);
+  useEffect(() => { localStorage.setItem('referenceLibrary', JSON.stringify(referenceLibrary)); }, [referenceLibrary]);
 
   const handleNewSession = () => {
     setTriples([]); setEntities([]); setSchemaProposals([]); setError(null); setProcessingStats(null);
@@ -86,7 +129,7 @@ const App: React.FC = () => {
     extractionStartTimeRef.current = null;
     const filesToReset = managedFiles.filter(mf => selectedFiles.has(mf.name));
     const otherFiles = managedFiles.filter(mf => !selectedFiles.has(mf.name));
-    const resetFiles = filesToReset.map(mf => ({ ...mf, status: { step: 'ready' as ExtractionStep }, chunks: undefined, rawText: undefined }));
+    const resetFiles = filesToReset.map(mf => ({ ...mf, status: { step: 'ready' as ExtractionStep }, chunks: undefined, coverage: undefined, removedText: undefined, references: undefined, rawText: undefined }));
     setManagedFiles([...otherFiles, ...resetFiles]);
   };
 
@@ -94,8 +137,8 @@ const App: React.FC = () => {
     const files = 'length' in eventOrFiles ? eventOrFiles : eventOrFiles.target.files;
     if (!files || files.length === 0) return;
 
-    const newPdfFiles = Array.from(files).filter(file => file.type === 'application/pdf' && !managedFiles.some(mf => mf.name === file.name));
-    const newManagedFiles: ManagedFile[] = newPdfFiles.map(file => ({ name: file.name, file, status: { step: 'ready' } }));
+    const newDocumentFiles = Array.from(files).filter(file => detectDocumentFormat(file.name) && !managedFiles.some(mf => mf.name === file.name));
+    const newManagedFiles: ManagedFile[] = newDocumentFiles.map(file => ({ name: file.name, file, status: { step: 'ready' } }));
     setManagedFiles(prev => [...prev, ...newManagedFiles]);
   };
 
@@ -123,9 +166,16 @@ const App: React.FC = () => {
     setManagedFiles(prev => prev.map(f => f.name === fileName ? { ...f, status: { ...f.status, ...newStatus } } : f));
   }, []);
 
-  const getTextForFile = (file: ManagedFile): string => {
-      return file.chunks?.filter(c => c.selected).map(c => c.content).join('\n\n') || file.rawText || '';
-  };
+  // Reflects a file's LLM calls in its status: 'queued' with its position while waiting for a slot
+  // in the shared scheduler, and the stage message plus "retrying (2/5)…" while backing off.
+  // Reported token usage is booked against the file and stage in the run's usage ledger.
+  const llmHooksFor = (fileName: string, step: ExtractionStep, message: string, stage: LlmStage): LlmCallHooks => ({
+      queueKey: fileName,
+      onQueued: (position) => updateFileStatus(fileName, { step: 'queued', message: `Waiting for an LLM slot (#${position} in queue)`, queuePosition: position }),
+      onDispatched: () => updateFileStatus(fileName, { step, message, queuePosition: undefined }),
+      onRetry: (attempt, maxAttempts) => updateFileStatus(fileName, { step, message: `${message} retrying (${attempt}/${maxAttempts})…` }),
+      onUsage: (usage) => usageLedgerRef.current?.record(fileName, stage, usage),
+  });
 
   const getActivePrompt = (key: keyof PromptCollection): string => {
       const prompt = prompts[key];
@@ -134,7 +184,7 @@ const App: React.FC = () => {
   }
 
   const handleStartExtraction = async () => {
-    if (!llmConfig.apiKey) { 
+    if (isApiKeyMissing) { 
         setError('API key is not configured. Please set it in Settings.');
         setIsSettingsOpen(true);
         return;
@@ -143,8 +193,15 @@ const App: React.FC = () => {
     if (filesToProcess.length === 0) return setError('No files selected for extraction.');
     
     abortControllerRef.current = new AbortController();
+    const batchSignal = abortControllerRef.current.signal;
+    // Each file gets its own controller so it can be cancelled alone; stopping the batch aborts them all.
+    const fileControllers = new Map<string, AbortController>(filesToProcess.map(file => [file.name, new AbortController()]));
+    fileAbortControllersRef.current = fileControllers;
+    batchSignal.addEventListener('abort', () => fileControllers.forEach(controller => controller.abort()), { once: true });
+    const signalFor = (fileName: string) => fileControllers.get(fileName)!.signal;
     const startTime = Date.now();
     extractionStartTimeRef.current = startTime;
+    usageLedgerRef.current = createUsageLedger(priceForConfig(llmConfig, modelPrices));
     setActiveSchema(schema);
     handleNewSession();
     setActiveResultTab('analysis');
@@ -152,51 +209,157 @@ const App: React.FC = () => {
     
     filesToProcess.forEach(file => updateFileStatus(file.name, { step: 'queued' }));
 
+    // A failure in one file (an unreadable document, an OCR error, a request that is rejected or
+    // still invalid after repair and re-asking) fails only that file, and cancelling a single file
+    // stops only that file; either way it is skipped by the remaining steps. Stopping the batch
+    // still ends the whole run.
+    const droppedFiles = new Set<string>();
+    const isolateFileFailure = async <T,>(fileName: string, fallback: T, run: () => Promise<T>): Promise<T> => {
+        try {
+            return await run();
+        } catch (e) {
+            const aborted = e instanceof Error && e.name === 'AbortError';
+            if (aborted && batchSignal.aborted) throw e;
+            if (!aborted) updateFileStatus(fileName, { step: 'error', message: e instanceof Error ? e.message : String(e) });
+            droppedFiles.add(fileName);
+            return fallback;
+        }
+    };
+    const isDropped = (fileName: string) => signalFor(fileName).aborted || droppedFiles.has(fileName);
+
+    // Serves a stage from the response cache when its inputs are unchanged. A file whose every
+    // stage was a cache hit finishes as 'cached' instead of 'complete'. Inputs carry the prompt
+    // text and the whole schema rather than their version numbers: prompt versions restart when
+    // prompts are reset, and editing concepts or predicates does not bump the schema version.
+    const uncachedFiles = new Set<string>();
+    const withResponseCache = async <T,>(fileName: string, stage: LlmStage, inputs: Record<string, unknown>, run: () => Promise<T>): Promise<T> => {
+        const key = await buildCacheKey(stage, inputs, llmConfig);
+        const cached = await readCachedResponse<T>(key);
+        if (cached !== undefined) return cached;
+        uncachedFiles.add(fileName);
+        const value = await run();
+        await writeCachedResponse(key, stage, value);
+        return value;
+    };
+
+    // Chunks structured in this run; the managedFiles snapshot above predates them.
+    const chunksByFile = new Map<string, DocumentChunk[]>();
+    const parsedByFile = new Map<string, ParsedPdf>();
+    const metadataByFile = new Map<string, BibliographicMetadata>();
+    const referencesByFile = new Map<string, ReferenceEntry[]>();
+    const selectedChunksFor = (fileName: string) => (chunksByFile.get(fileName) || []).filter(c => c.selected);
+
+    const structureDocument = async (fileName: string, rawText: string): Promise<DocumentChunk[]> => {
+        if (structuringMethod === 'heuristic') return heuristicChunkDocument(rawText);
+        const chunkPrompt = getActivePrompt('DOCUMENT_STRUCTURE');
+        try {
+            const chunks = await withResponseCache(fileName, 'structuring', { rawText, prompt: getActivePrompt('DOCUMENT_STRUCTURE') },
+                () => llmChunkDocument(rawText, llmConfig, chunkPrompt, signalFor(fileName), llmHooksFor(fileName, 'structuring', "Structuring document...", 'structuring')));
+            if (chunks.length > 0 || structuringMethod === 'llm') return chunks;
+            updateFileStatus(fileName, { step: 'structuring', message: "No sections returned; structuring by headings..." });
+        } catch (e) {
+            if (structuringMethod === 'llm' || (e instanceof Error && e.name === 'AbortError')) throw e;
+            updateFileStatus(fileName, { step: 'structuring', message: "LLM structuring failed; structuring by headings..." });
+        }
+        return heuristicChunkDocument(rawText);
+    };
+
+    // Text, chunks and bibliographic metadata of one file; null when the file is dropped midway.
+    const readDocument = async (file: ManagedFile): Promise<{ rawText: string; chunks: DocumentChunk[]; metadata: PartialMetadata } | null> => {
+        const format = detectDocumentFormat(file.name);
+        if (format !== 'pdf') {
+            updateFileStatus(file.name, { step: 'parsing', message: "Reading document..." });
+            const text = await file.file.text();
+            // Marked-up documents carry their own sections and skip structuring.
+            const marked = format === 'xml' ? parseXmlDocument(text) : format === 'markdown' ? parseMarkdownDocument(text) : null;
+            const rawText = marked ? marked.text : text.trim();
+            if (!rawText) throw new Error("The document contains no text.");
+            const metadata = marked?.metadata || extractMetadataFromFirstPage(rawText.slice(0, FIRST_PAGE_CHARS));
+            if (marked) return { rawText, chunks: marked.chunks, metadata };
+            if (isDropped(file.name)) return null;
+            updateFileStatus(file.name, { step: 'structuring', message: "Structuring document..." });
+            return { rawText, chunks: await structureDocument(file.name, rawText), metadata };
+        }
+
+        updateFileStatus(file.name, { step: 'parsing', message: "Parsing PDF..." });
+        const parsed = await parsePdf(file.file, signalFor(file.name), (page, pageCount) =>
+            updateFileStatus(file.name, { step: 'parsing', message: `Running OCR on page ${page} of ${pageCount}...` }));
+        const rawText = parsed.text;
+        if (!rawText.trim()) throw new Error("No text could be read from this PDF, even with OCR.");
+        parsedByFile.set(file.name, parsed);
+        setManagedFiles(prev => prev.map(f => f.name === file.name ? { ...f, removedText: parsed.removed } : f));
+        if (parsed.ocrPages.length > 0) updateFileStatus(file.name, { ocrPages: parsed.ocrPages });
+        const firstPage = rawText.slice(0, parsed.pageOffsets[1] ?? rawText.length);
+        const metadata = mergeMetadata('document', extractMetadataFromPdfInfo(parsed.info), extractMetadataFromFirstPage(firstPage));
+
+        if (isDropped(file.name)) return null;
+        updateFileStatus(file.name, { step: 'structuring', message: "Structuring document..." });
+        const structured = (await structureDocument(file.name, rawText)).map(chunk =>
+            chunk.start !== undefined && chunk.end !== undefined ? { ...chunk, pages: pageRange(parsed.pageOffsets, chunk.start, chunk.end) } : chunk);
+        return { rawText, chunks: attachTables(structured, parsed.tables), metadata };
+    };
+
     try {
         // Step 1: Parse and chunk all files in parallel
-        await Promise.all(filesToProcess.map(async (file) => {
-            if (abortControllerRef.current?.signal.aborted) return;
-            updateFileStatus(file.name, { step: 'parsing', message: "Parsing PDF..." });
-            const rawText = await parsePdfToText(file.file);
-
-            if (abortControllerRef.current?.signal.aborted) return;
-            updateFileStatus(file.name, { step: 'structuring', message: "Structuring document..." });
-            const chunkPrompt = getActivePrompt('DOCUMENT_STRUCTURE');
-            const chunks = await llmChunkDocument(rawText, llmConfig, chunkPrompt, abortControllerRef.current!.signal);
-            
-            setManagedFiles(prev => prev.map(f => f.name === file.name ? { ...f, rawText, chunks } : f));
-        }));
+        await Promise.all(filesToProcess.map(file => isolateFileFailure(file.name, undefined, async () => {
+            if (isDropped(file.name)) return;
+            const read = await readDocument(file);
+            if (!read) return;
+            const { rawText } = read;
+            // Reference lists are parsed for citation linking instead of being sent to extraction.
+            const chunks = read.chunks.map(chunk => chunk.kind === 'references' ? { ...chunk, selected: false } : chunk);
+            const references = parseReferenceList(chunks.filter(chunk => chunk.kind === 'references').map(chunk => chunk.content).join('\n'));
+            chunksByFile.set(file.name, chunks);
+            referencesByFile.set(file.name, references);
+            const metadata = file.metadata?.source === 'user' ? file.metadata : withLibraryMatch(mergeMetadata('document', read.metadata));
+            metadataByFile.set(file.name, metadata);
+            const coverage = measureCoverage(rawText, chunks);
+            setManagedFiles(prev => prev.map(f => f.name === file.name ? { ...f, rawText, chunks, coverage, metadata, references } : f));
+        })));
         
         // Step 2: Analyze schema fit on the first file (sequential is fine)
-        const firstFile = managedFiles.find(f => selectedFiles.has(f.name));
-        const firstFileChunks = firstFile?.chunks;
-        const abstractText = firstFileChunks?.[0]?.content.slice(0, 4000) || '';
+        const firstFile = filesToProcess[0];
+        const abstractText = chunksByFile.get(firstFile.name)?.[0]?.content.slice(0, 4000) || '';
         let mode: 'schema_mode' | 'automated_mode' = 'schema_mode';
+        // This run's paper core; the paperCore state still holds the previous run's until re-render.
+        let runCore: PaperCore | null = null;
 
-        if (abstractText) {
-            updateFileStatus(firstFile!.name, { step: 'analyzingSchemaFit', message: "Analyzing paper core..." });
+        if (abstractText && !isDropped(firstFile.name)) {
+            updateFileStatus(firstFile.name, { step: 'analyzingSchemaFit', message: "Analyzing paper core..." });
             const corePrompt = getActivePrompt('PAPER_CORE_EXTRACTION');
-            const core = await extractPaperCore(abstractText, llmConfig, corePrompt, abortControllerRef.current!.signal);
-            setPaperCore(core);
-            const report = generateFitReport(core, generateSchemaCapabilityProfile(schema));
-            setFitReport(report);
-            mode = report.decision;
+            try {
+                const core = await withResponseCache(firstFile.name, 'paperCore', { abstractText, prompt: getActivePrompt('PAPER_CORE_EXTRACTION') },
+                    () => extractPaperCore(abstractText, llmConfig, corePrompt, signalFor(firstFile.name), llmHooksFor(firstFile.name, 'analyzingSchemaFit', "Analyzing paper core...", 'paperCore')));
+                const parsed = parsedByFile.get(firstFile.name);
+                runCore = parsed ? citeEvidencePages(core, parsed) : core;
+                setPaperCore(runCore);
+                const report = generateFitReport(core, generateSchemaCapabilityProfile(schema));
+                setFitReport(report);
+                mode = report.decision;
+            } catch (e) {
+                // The paper core only guides extraction; without it the run continues in schema mode.
+                const aborted = e instanceof Error && e.name === 'AbortError';
+                if (aborted && batchSignal.aborted) throw e;
+                if (!aborted) setError(`Paper core analysis skipped, continuing in schema mode. ${e instanceof Error ? e.message : String(e)}`);
+            }
         }
 
         // Step 3: Extract entities from all files in parallel
         const entityExtractionStart = Date.now();
-        const entityExtractionResults = await Promise.all(filesToProcess.map(async (file) => {
-            if (abortControllerRef.current?.signal.aborted) return { entities: [], proposals: [] };
+        const entityExtractionResults = await Promise.all(filesToProcess.map(file => isolateFileFailure(file.name, { entities: [], proposals: [] }, async () => {
+            if (isDropped(file.name)) return { entities: [], proposals: [] };
             updateFileStatus(file.name, { step: 'extractingEntities', message: "Extracting entities..." });
-            const text = getTextForFile(file);
-            if (!text) return { entities: [], proposals: [] };
-            
+            const chunks = selectedChunksFor(file.name);
+            if (chunks.length === 0) return { entities: [], proposals: [] };
+
             const entityPrompts = {
                 schema: getActivePrompt('SCHEMA_ENTITY_EXTRACTION'),
                 automated: getActivePrompt('AUTOMATED_ENTITY_EXTRACTION'),
             };
-            return extractEntities(text, schema, mode, paperCore, llmConfig, entityPrompts, abortControllerRef.current!.signal);
-        }));
+            const entityPromptKey = mode === 'schema_mode' ? 'SCHEMA_ENTITY_EXTRACTION' : 'AUTOMATED_ENTITY_EXTRACTION';
+            return withResponseCache(file.name, 'entities', { chunks, mode, prompt: getActivePrompt(entityPromptKey), schema, paperCore: runCore },
+                () => extractEntitiesFromChunks(chunks, schema, mode, runCore, llmConfig, entityPrompts, signalFor(file.name), llmHooksFor(file.name, 'extractingEntities', "Extracting entities...", 'entities')));
+        })));
 
         let allEntities: ExtractedEntity[] = [];
         entityExtractionResults.forEach(result => {
@@ -207,23 +370,29 @@ const App: React.FC = () => {
         setEntities(allEntities);
 
         // Step 4: Extract relationships from all files in parallel
-        const relationshipExtractionResults = await Promise.all(filesToProcess.map(async (file) => {
-             if (abortControllerRef.current?.signal.aborted) return { file, triples: [], proposals: [] };
+        const relationshipExtractionResults = await Promise.all(filesToProcess.map(file => isolateFileFailure(file.name, { file, triples: [], proposals: [] }, async () => {
+             if (isDropped(file.name)) return { file, triples: [], proposals: [] };
              updateFileStatus(file.name, { step: 'extractingRelationships', message: "Extracting relationships..." });
-             const text = getTextForFile(file);
-             if (!text) return { file, triples: [], proposals: [] };
+             const chunks = selectedChunksFor(file.name);
+             if (chunks.length === 0) return { file, triples: [], proposals: [] };
              const relationshipPrompts = {
                  schema: getActivePrompt('SCHEMA_RELATIONSHIP_EXTRACTION'),
                  automated: getActivePrompt('AUTOMATED_RELATIONSHIP_EXTRACTION'),
+                 table: getActivePrompt('TABLE_RELATIONSHIP_EXTRACTION'),
              };
-             const result = await extractRelationships(text, schema, allEntities, mode, paperCore, llmConfig, relationshipPrompts, abortControllerRef.current!.signal);
-             updateFileStatus(file.name, { step: 'complete' });
+             const relationshipPromptKey = mode === 'schema_mode' ? 'SCHEMA_RELATIONSHIP_EXTRACTION' : 'AUTOMATED_RELATIONSHIP_EXTRACTION';
+             const entityList = allEntities.map(e => ({ name: e.name, type: e.type }));
+             const result = await withResponseCache(file.name, 'relationships', { chunks, mode, prompt: getActivePrompt(relationshipPromptKey), tablePrompt: getActivePrompt('TABLE_RELATIONSHIP_EXTRACTION'), schema, paperCore: runCore, entities: entityList },
+                 () => extractRelationshipsFromChunks(chunks, schema, allEntities, mode, runCore, llmConfig, relationshipPrompts, signalFor(file.name), llmHooksFor(file.name, 'extractingRelationships', "Extracting relationships...", 'relationships')));
+             updateFileStatus(file.name, { step: uncachedFiles.has(file.name) ? 'complete' : 'cached' });
              return { file, ...result };
-        }));
+        })));
 
         let allTriples: Triple[] = [];
         relationshipExtractionResults.forEach(result => {
-             result.triples.forEach(t => allTriples.push({ ...t, source: result.file.name }));
+             const citation = tripleCitation(metadataByFile.get(result.file.name));
+             linkTripleCitations<Omit<Triple, 'source'>>(result.triples, referencesByFile.get(result.file.name) || [], chunksByFile.get(result.file.name) || [])
+                 .forEach(t => allTriples.push({ ...t, source: result.file.name, ...citation }));
              result.proposals.forEach(p => setSchemaProposals(prev => [...prev, p]));
         });
         setTriples(allTriples);
@@ -232,7 +401,7 @@ const App: React.FC = () => {
         const totalDurationSeconds = (Date.now() - startTime) / 1000;
         const entityTypeCounts = allEntities.reduce((acc, entity) => { acc[entity.type] = (acc[entity.type] || 0) + 1; return acc; }, {} as Record<string, number>);
         const predicateTypeCounts = allTriples.reduce((acc, triple) => { acc[triple.predicate] = (acc[triple.predicate] || 0) + 1; return acc; }, {} as Record<string, number>);
-        setProcessingStats({ filesProcessed: filesToProcess.length, entitiesFound: allEntities.length, triplesExtracted: allTriples.length, totalDurationSeconds, entityExtractionDuration, relationshipExtractionDuration: totalDurationSeconds - (entityExtractionDuration || 0), entityTypeCounts, predicateTypeCounts });
+        setProcessingStats({ filesProcessed: filesToProcess.length, entitiesFound: allEntities.length, triplesExtracted: allTriples.length, totalDurationSeconds, entityExtractionDuration, relationshipExtractionDuration: totalDurationSeconds - (entityExtractionDuration || 0), entityTypeCounts, predicateTypeCounts, usage: usageLedgerRef.current?.summarize() });
 
     } catch (e: any) {
         const filesToProcess = managedFiles.filter(f => selectedFiles.has(f.name));
@@ -281,8 +450,42 @@ const App: React.FC = () => {
   };
 
   const handleStopExtraction = () => abortControllerRef.current?.abort();
+  const handleCancelFile = (fileName: string) => {
+    fileAbortControllersRef.current.get(fileName)?.abort();
+    updateFileStatus(fileName, { step: 'ready', message: 'Cancelled by user', queuePosition: undefined });
+  };
   const handleFileSelectionChange = (fileName: string, isSelected: boolean) => { setSelectedFiles(prev => { const newSet = new Set(prev); if (isSelected) newSet.add(fileName); else newSet.delete(fileName); return newSet; }); };
   const handleSectionSelectionChange = (fileName: string, chunkId: string, selected: boolean) => { setManagedFiles(prev => prev.map(file => { if (file.name === fileName && file.chunks) { const newChunks = file.chunks.map(c => c.id === chunkId ? { ...c, selected } : c); return { ...file, chunks: newChunks }; } return file; })); };
+  const withLibraryMatch = (metadata: BibliographicMetadata, library = referenceLibrary): BibliographicMetadata => {
+    const match = findInLibrary(library, metadata);
+    return match ? mergeMetadata('library', match, metadata) : metadata;
+  };
+  const handleMetadataChange = (fileName: string, metadata: BibliographicMetadata) => {
+    setManagedFiles(prev => prev.map(f => f.name === fileName ? { ...f, metadata } : f));
+    setTriples(prev => prev.map(t => t.source === fileName ? { ...t, ...tripleCitation(metadata) } : t));
+  };
+  // Returns whether the library had the paper.
+  const handleLookupMetadata = (fileName: string, metadata: BibliographicMetadata): boolean => {
+    const match = findInLibrary(referenceLibrary, metadata);
+    if (match) handleMetadataChange(fileName, mergeMetadata('library', match, metadata));
+    return !!match;
+  };
+  const handleLibraryImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const library = parseReferenceLibrary(await file.text());
+      setReferenceLibrary(library);
+      setError(null);
+      // Papers whose metadata was not edited by hand are matched against the new library.
+      managedFiles.forEach(f => {
+        if (f.metadata && f.metadata.source !== 'user') handleMetadataChange(f.name, withLibraryMatch(f.metadata, library));
+      });
+    } catch (err: any) {
+      setError(`Could not import the reference library: ${err.message}`);
+    }
+  };
   const handleDeleteFile = (fileName: string) => { setManagedFiles(prev => prev.filter(f => f.name !== fileName)); setSelectedFiles(prev => { const newSet = new Set(prev); newSet.delete(fileName); return newSet; }); };
   const handleSchemaReset = () => { if (window.confirm("Are you sure you want to reset the schema to its default state? This will clear any unsaved changes.")) { setSchema(DEFAULT_SCHEMA); } };
   const handlePromptsReset = () => { if (window.confirm("Are you sure you want to reset ALL prompts to their default state? Your customizations will be lost.")) { setPrompts(DEFAULT_PROMPTS); } };
@@ -324,7 +527,7 @@ const App: React.FC = () => {
 
   const WelcomeScreen = () => (
       <div className="text-center p-8">
-          {!llmConfig.apiKey && (
+          {isApiKeyMissing && (
               <div className="max-w-2xl mx-auto mb-6 p-4 bg-yellow-50 border border-yellow-300 rounded-md text-yellow-800 flex items-start space-x-3">
                   <AlertTriangleIcon className="w-5 h-5 mt-0.5 flex-shrink-0"/>
                   <div>
@@ -335,7 +538,7 @@ const App: React.FC = () => {
           )}
           <h2 className="text-2xl font-bold text-brand-dark mb-2">Welcome to the DeepTime KG Extractor</h2>
           <p className="text-gray-600 max-w-2xl mx-auto">
-              To get started, upload one or more scientific papers in PDF format using the panel on the left.
+              To get started, upload one or more scientific papers (PDF, JATS or TEI XML, Markdown or plain text) using the panel on the left.
               Then, select the files you wish to process and click the "Extract" button.
           </p>
       </div>
@@ -358,7 +561,7 @@ const App: React.FC = () => {
   return (
     <div className="min-h-screen bg-brand-light font-sans flex flex-col">
       <Header onSettingsClick={() => setIsSettingsOpen(true)} />
-       {isSettingsOpen && <SettingsModal config={llmConfig} onConfigChange={setLlmConfig} onClose={() => setIsSettingsOpen(false)} />}
+       {isSettingsOpen && <SettingsModal config={llmConfig} onConfigChange={setLlmConfig} modelPrices={modelPrices} onModelPricesChange={setModelPrices} onClose={() => setIsSettingsOpen(false)} />}
       <main className="flex-grow flex flex-col lg:flex-row p-4 gap-4">
         <div className="w-full lg:w-1/3 xl:w-1/4 flex flex-col space-y-4 bg-white shadow-lg rounded-lg border border-gray-200 p-4">
             <div 
@@ -366,16 +569,31 @@ const App: React.FC = () => {
                 onDragEnter={handleDragEvents} onDragOver={handleDragEvents} onDragLeave={handleDragEvents} onDrop={handleDrop}
             >
                 <UploadCloudIcon className="w-12 h-12 mx-auto text-gray-400" />
-                <p className="mt-2 text-sm text-gray-600">Drag & drop PDF files here, or <label htmlFor="file-upload" className="font-semibold text-brand-primary cursor-pointer hover:underline">browse</label>.</p>
-                <input id="file-upload" name="file-upload" type="file" className="sr-only" multiple accept=".pdf" onChange={handleFileChange} />
+                <p className="mt-2 text-sm text-gray-600">Drag & drop PDF, XML, Markdown or text files here, or <label htmlFor="file-upload" className="font-semibold text-brand-primary cursor-pointer hover:underline">browse</label>.</p>
+                <input id="file-upload" name="file-upload" type="file" className="sr-only" multiple accept={ACCEPTED_EXTENSIONS.join(',')} onChange={handleFileChange} />
             </div>
             
+            <div className="flex items-center justify-between text-xs text-gray-600 px-1">
+                <span>Reference library: {referenceLibrary.length > 0 ? `${referenceLibrary.length} entr${referenceLibrary.length === 1 ? 'y' : 'ies'}` : 'none'}</span>
+                <span className="space-x-2">
+                    <label htmlFor="library-upload" className="font-semibold text-brand-primary cursor-pointer hover:underline" title="BibTeX (.bib) or CSL-JSON (.json) export from a reference manager">Import</label>
+                    {referenceLibrary.length > 0 && <button onClick={() => setReferenceLibrary([])} className="font-semibold text-gray-500 hover:text-red-600">Clear</button>}
+                </span>
+                <input id="library-upload" type="file" className="sr-only" accept=".bib,.bibtex,.json" onChange={handleLibraryImport} />
+            </div>
+
             <div className="flex-grow min-h-0 overflow-y-auto">
-                <FileList files={managedFiles} selectedFiles={selectedFiles} onFileSelectionChange={handleFileSelectionChange} onSectionSelectionChange={handleSectionSelectionChange} onDeleteFile={handleDeleteFile} />
+                <FileList files={managedFiles} selectedFiles={selectedFiles} onFileSelectionChange={handleFileSelectionChange} onSectionSelectionChange={handleSectionSelectionChange} onDeleteFile={handleDeleteFile} onCancelFile={handleCancelFile} onMetadataChange={handleMetadataChange} onLookupMetadata={referenceLibrary.length > 0 ? handleLookupMetadata : undefined} />
             </div>
 
              <div className="mt-auto pt-4 flex-shrink-0">
-              <button onClick={isProcessing ? handleStopExtraction : handleStartExtraction} disabled={!isProcessing && (selectedFiles.size === 0 || !llmConfig.apiKey)} className={`w-full flex items-center justify-center font-bold py-3 px-4 rounded-lg transition-colors duration-300 disabled:cursor-not-allowed shadow-md ${isProcessing ? 'bg-red-600 hover:bg-red-700 text-white' : 'bg-brand-secondary hover:bg-brand-primary text-white disabled:bg-gray-400'}`}>
+              <label htmlFor="structuringMethod" className="block text-xs font-semibold text-gray-600 mb-1">Document structuring</label>
+              <select id="structuringMethod" value={structuringMethod} onChange={(e) => setStructuringMethod(e.target.value as StructuringMethod)} disabled={isProcessing} className="w-full mb-3 px-2 py-1.5 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-brand-accent focus:border-brand-accent disabled:bg-gray-100">
+                <option value="llmWithFallback">LLM, headings if it fails</option>
+                <option value="llm">LLM only</option>
+                <option value="heuristic">Headings only (offline, no tokens)</option>
+              </select>
+              <button onClick={isProcessing ? handleStopExtraction : handleStartExtraction} disabled={!isProcessing && (selectedFiles.size === 0 || isApiKeyMissing)} className={`w-full flex items-center justify-center font-bold py-3 px-4 rounded-lg transition-colors duration-300 disabled:cursor-not-allowed shadow-md ${isProcessing ? 'bg-red-600 hover:bg-red-700 text-white' : 'bg-brand-secondary hover:bg-brand-primary text-white disabled:bg-gray-400'}`}>
                 {isProcessing ? <><StopIcon className="w-5 h-5 mr-2" /> Stop Processing</> : <><SparklesIcon className="w-5 h-5 mr-2"/>Extract from {selectedFiles.size > 0 ? `${selectedFiles.size} ` : ''}File{selectedFiles.size !== 1 && 's'}</>}
               </button>
               {error && <p className="text-red-600 text-sm mt-2 text-center">{error}</p>}
@@ -409,7 +627,15 @@ const App: React.FC = () => {
                                     )}
                                     {activeResultTab === 'triples' && (
                                         <div className="grid grid-cols-1 gap-4">
-                                            {triples.map((triple, index) => ( <TripleCard key={`${triple.source}-${index}`} triple={triple} index={index} /> ))}
+                                            <div className="flex items-center space-x-2 text-sm">
+                                                <label htmlFor="tripleFilter" className="text-gray-600">Show</label>
+                                                <select id="tripleFilter" value={tripleFilter} onChange={(e) => setTripleFilter(e.target.value as TripleFilter)} className="px-2 py-1 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-brand-accent focus:border-brand-accent">
+                                                    <option value="all">All triples ({triples.length})</option>
+                                                    <option value="new">New observations ({triples.filter(t => !t.cites).length})</option>
+                                                    <option value="cited">Citing prior work ({triples.filter(t => t.cites).length})</option>
+                                                </select>
+                                            </div>
+                                            {triples.filter(t => tripleFilter === 'all' || (tripleFilter === 'cited') === !!t.cites).map((triple, index) => ( <TripleCard key={`${triple.source}-${index}`} triple={triple} index={index} /> ))}
                                         </div>
                                     )}
                                     {activeResultTab === 'entities' && (
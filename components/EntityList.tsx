@@ -126,6 +126,9 @@ const EntityList: React.FC<EntityListProps> = ({ entities, onEntitySelectionChan
                     <div className={`flex-grow flex flex-col ${readOnly ? '' : 'ml-2'}`}>
                       <span className="text-sm font-medium leading-tight" title={entity.name}>{entity.name}</span>
                       <span className="text-xs text-brand-secondary font-mono leading-tight">{entity.type}</span>
+                      {entity.coordinates && (
+                        <span className="text-xs text-gray-500 font-mono leading-tight" title={entity.coordinates.text}>{entity.coordinates.latitude}, {entity.coordinates.longitude}</span>
+                      )}
                     </div>
                      {confidenceScore !== null && (
                         <span className="text-xs font-bold text-gray-500 bg-white px-1.5 py-0.5 rounded-full border self-center flex-shrink-0">{confidenceScore}%</span>
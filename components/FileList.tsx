@@ -1,12 +1,17 @@
 
-import React, { useState } from 'react';
-import { FileIcon, TrashIcon, LoaderIcon, CheckCircleIcon, AlertTriangleIcon, ClockIcon, CheckboxCheckedIcon, CheckboxUncheckedIcon, DatabaseIcon, ChevronDownIcon, ChevronRightIcon } from './icons';
-import type { ExtractionStep, DocumentChunk } from '../types';
+import React, { useEffect, useState } from 'react';
+import { FileIcon, TrashIcon, LoaderIcon, CheckCircleIcon, AlertTriangleIcon, ClockIcon, CheckboxCheckedIcon, CheckboxUncheckedIcon, DatabaseIcon, ChevronDownIcon, ChevronRightIcon, StopIcon } from './icons';
+import type { ExtractionStep, DocumentChunk, ChunkCoverage, RemovedPageText, OcrPageConfidence, BibliographicMetadata, ReferenceEntry } from '../types';
+import { formatAuthorYear, normalizeDoi } from '../services/bibliographicMetadata';
 
 interface ManagedFile {
     name: string;
     chunks?: DocumentChunk[];
-    status: { step: ExtractionStep; message?: string };
+    coverage?: ChunkCoverage;
+    removedText?: RemovedPageText[];
+    metadata?: BibliographicMetadata;
+    references?: ReferenceEntry[];
+    status: { step: ExtractionStep; message?: string; queuePosition?: number; ocrPages?: OcrPageConfidence[] };
 }
 
 interface FileListProps {
@@ -15,17 +20,89 @@ interface FileListProps {
   onFileSelectionChange: (fileName: string, selected: boolean) => void;
   onSectionSelectionChange: (fileName: string, chunkId: string, selected: boolean) => void;
   onDeleteFile: (fileName: string) => void;
+  onCancelFile: (fileName: string) => void;
+  onMetadataChange: (fileName: string, metadata: BibliographicMetadata) => void;
+  // Absent while there is no reference library to look papers up in.
+  onLookupMetadata?: (fileName: string, metadata: BibliographicMetadata) => boolean;
 }
 
-const StatusIndicator: React.FC<{ status: { step: ExtractionStep; message?: string } }> = ({ status }) => {
-    const { step, message } = status;
+const REMOVED_TEXT_LABELS: Record<RemovedPageText['reason'], string> = {
+    running: 'Header/footer',
+    pageNumber: 'Page numbers',
+    boilerplate: 'Notice',
+};
+
+const METADATA_SOURCE_LABELS: Record<BibliographicMetadata['source'], string> = {
+    document: 'read from the document',
+    library: 'from the reference library',
+    user: 'edited',
+};
+
+const METADATA_FIELDS = [
+    { key: 'title', label: 'Title' },
+    { key: 'authors', label: 'Authors (separated by ;)' },
+    { key: 'year', label: 'Year' },
+    { key: 'journal', label: 'Journal' },
+    { key: 'doi', label: 'DOI' },
+] as const;
+
+type MetadataDraft = Record<typeof METADATA_FIELDS[number]['key'], string>;
+
+const toDraft = (metadata: BibliographicMetadata): MetadataDraft => ({
+    title: metadata.title || '',
+    authors: metadata.authors.join('; '),
+    year: metadata.year ? String(metadata.year) : '',
+    journal: metadata.journal || '',
+    doi: metadata.doi || '',
+});
+
+const fromDraft = (draft: MetadataDraft): BibliographicMetadata => ({
+    title: draft.title.trim() || undefined,
+    authors: draft.authors.split(';').map(author => author.trim()).filter(Boolean),
+    year: /^\d{4}$/.test(draft.year.trim()) ? Number(draft.year.trim()) : undefined,
+    journal: draft.journal.trim() || undefined,
+    doi: draft.doi.trim() ? normalizeDoi(draft.doi) : undefined,
+    source: 'user',
+});
+
+const MetadataEditor: React.FC<{ metadata: BibliographicMetadata; onSave: (metadata: BibliographicMetadata) => void; onLookup?: (metadata: BibliographicMetadata) => boolean }> = ({ metadata, onSave, onLookup }) => {
+    const [draft, setDraft] = useState<MetadataDraft>(() => toDraft(metadata));
+    const [lookupFailed, setLookupFailed] = useState(false);
+    useEffect(() => { setDraft(toDraft(metadata)); }, [metadata]);
+
+    const handleLookup = () => setLookupFailed(!onLookup?.({ ...fromDraft(draft), source: metadata.source }));
+
+    return (
+        <details className="text-xs text-gray-600">
+            <summary className="cursor-pointer truncate" title={metadata.title}>
+                <span className="font-semibold">{formatAuthorYear(metadata) || 'Unknown authors'}</span>{metadata.title && ` · ${metadata.title}`} <span className="text-gray-400">({METADATA_SOURCE_LABELS[metadata.source]})</span>
+            </summary>
+            <div className="mt-1 space-y-1">
+                {METADATA_FIELDS.map(({ key, label }) => (
+                    <label key={key} className="block">
+                        <span className="text-gray-500">{label}</span>
+                        <input type="text" value={draft[key]} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft(prev => ({ ...prev, [key]: e.target.value }))} className="w-full px-1.5 py-0.5 border border-gray-300 rounded focus:outline-none focus:ring-brand-accent focus:border-brand-accent" />
+                    </label>
+                ))}
+                <div className="flex items-center space-x-2 pt-1">
+                    <button onClick={() => onSave(fromDraft(draft))} className="px-2 py-0.5 rounded bg-brand-secondary text-white font-semibold hover:bg-brand-primary">Save</button>
+                    {onLookup && <button onClick={handleLookup} disabled={!draft.doi.trim() && !draft.title.trim()} className="px-2 py-0.5 rounded border border-gray-300 font-semibold hover:bg-gray-100 disabled:text-gray-400">Look up in library</button>}
+                    {lookupFailed && <span className="text-yellow-700">Not in the library.</span>}
+                </div>
+            </div>
+        </details>
+    );
+};
+
+const StatusIndicator: React.FC<{ status: ManagedFile['status'] }> = ({ status }) => {
+    const { step, message, queuePosition } = status;
 
     const getStatusContent = () => {
         switch (step) {
             case 'cached':
                 return { icon: <DatabaseIcon className="w-4 h-4 text-purple-500" />, text: 'Cached', color: 'text-purple-600' };
             case 'queued':
-                return { icon: <ClockIcon className="w-4 h-4 text-gray-500" />, text: 'Queued', color: 'text-gray-600' };
+                return { icon: <ClockIcon className="w-4 h-4 text-gray-500" />, text: queuePosition ? `Queued #${queuePosition}` : 'Queued', color: 'text-gray-600' };
             case 'parsing':
             case 'structuring':
             case 'analyzingSchemaFit':
@@ -54,7 +131,18 @@ const StatusIndicator: React.FC<{ status: { step: ExtractionStep; message?: stri
     );
 };
 
-const FileList: React.FC<FileListProps> = ({ files, selectedFiles, onFileSelectionChange, onSectionSelectionChange, onDeleteFile }) => {
+const OcrBadge: React.FC<{ pages: OcrPageConfidence[] }> = ({ pages }) => {
+    const lowPages = pages.filter(p => p.low);
+    const title = `Read by OCR: ${pages.map(p => `p. ${p.page} (${p.confidence}%)`).join(', ')}`
+        + (lowPages.length > 0 ? `\nLow confidence on ${lowPages.length} page${lowPages.length === 1 ? '' : 's'}; check the extracted text.` : '');
+    return (
+        <span title={title} className={`text-xs font-semibold px-1.5 py-0.5 rounded ${lowPages.length > 0 ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-600'}`}>
+            OCR
+        </span>
+    );
+};
+
+const FileList: React.FC<FileListProps> = ({ files, selectedFiles, onFileSelectionChange, onSectionSelectionChange, onDeleteFile, onCancelFile, onMetadataChange, onLookupMetadata }) => {
     const [expandedFiles, setExpandedFiles] = useState<Set<string>>(new Set());
 
     const toggleFileExpansion = (fileName: string) => {
@@ -96,15 +184,48 @@ const FileList: React.FC<FileListProps> = ({ files, selectedFiles, onFileSelecti
                                 <span className="text-sm truncate font-medium text-gray-800" title={file.name}>{file.name}</span>
                             </div>
                             <div className="flex items-center space-x-2 flex-shrink-0">
+                                {file.status.ocrPages && file.status.ocrPages.length > 0 && <OcrBadge pages={file.status.ocrPages} />}
                                 <StatusIndicator status={file.status}/>
-                                <button onClick={(e) => { e.stopPropagation(); onDeleteFile(file.name); }} className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500 p-1 rounded-full transition-all" aria-label={`Delete ${file.name}`}>
-                                    <TrashIcon className="w-4 h-4" />
-                                </button>
+                                {isProcessing ? (
+                                    <button onClick={(e) => { e.stopPropagation(); onCancelFile(file.name); }} className="text-gray-400 hover:text-red-500 p-1 rounded-full transition-colors" aria-label={`Cancel ${file.name}`} title="Cancel this file">
+                                        <StopIcon className="w-4 h-4" />
+                                    </button>
+                                ) : (
+                                    <button onClick={(e) => { e.stopPropagation(); onDeleteFile(file.name); }} className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500 p-1 rounded-full transition-all" aria-label={`Delete ${file.name}`}>
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                )}
                             </div>
                         </div>
 
                         {isExpanded && (
                             <div className="pl-12 pr-4 pb-2 pt-1 border-t border-gray-200 space-y-1">
+                                {file.metadata && (
+                                    <MetadataEditor metadata={file.metadata} onSave={(metadata) => onMetadataChange(file.name, metadata)}
+                                        onLookup={onLookupMetadata && ((metadata) => onLookupMetadata(file.name, metadata))} />
+                                )}
+                                {file.coverage && (
+                                    <p className={`text-xs ${file.coverage.gaps > 0 ? 'text-yellow-700' : 'text-gray-500'}`}>
+                                        {(file.coverage.coverage * 100).toFixed(1)}% of the text in sections
+                                        {file.coverage.gaps > 0 && ` · ${file.coverage.gaps} gap${file.coverage.gaps === 1 ? '' : 's'} (${file.coverage.uncoveredChars.toLocaleString()} chars)`}
+                                        {file.coverage.repairedChunks > 0 && ` · ${file.coverage.repairedChunks} chunk${file.coverage.repairedChunks === 1 ? '' : 's'} repaired`}
+                                    </p>
+                                )}
+                                {file.references && file.references.length > 0 && (
+                                    <p className="text-xs text-gray-500">{file.references.length} reference{file.references.length === 1 ? '' : 's'} parsed for citation linking</p>
+                                )}
+                                {file.removedText && file.removedText.length > 0 && (
+                                    <details className="text-xs text-gray-500">
+                                        <summary className="cursor-pointer">{file.removedText.length} repeated or boilerplate line{file.removedText.length === 1 ? '' : 's'} removed</summary>
+                                        <ul className="mt-1 space-y-0.5 pl-3">
+                                            {file.removedText.map((removed) => (
+                                                <li key={`${removed.reason}:${removed.text}`} className="truncate" title={removed.text}>
+                                                    <span className="font-semibold">{REMOVED_TEXT_LABELS[removed.reason]}</span>{removed.reason !== 'pageNumber' && `: ${removed.text}`} <span className="text-gray-400">(p. {removed.pages.join(', ')})</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </details>
+                                )}
                                 {file.chunks && file.chunks.length > 0 ? file.chunks.map((chunk) => {
                                     const title = chunk.sectionPath.join(' > ') || 'Untitled Section';
                                     return (
@@ -112,6 +233,11 @@ const FileList: React.FC<FileListProps> = ({ files, selectedFiles, onFileSelecti
                                             <button onClick={() => onSectionSelectionChange(file.name, chunk.id, !chunk.selected)} className="flex items-center space-x-2 w-full text-left p-1 rounded-md hover:bg-gray-100">
                                                 {chunk.selected ? <CheckboxCheckedIcon className="w-5 h-5 text-brand-secondary flex-shrink-0"/> : <CheckboxUncheckedIcon className="w-5 h-5 text-gray-400 flex-shrink-0" />}
                                                 <span className="text-xs truncate text-gray-800" title={title}>{title}</span>
+                                                {chunk.warnings && chunk.warnings.length > 0 && (
+                                                    <span title={chunk.warnings.join('\n')} className="flex-shrink-0">
+                                                        <AlertTriangleIcon className="w-3.5 h-3.5 text-yellow-600" />
+                                                    </span>
+                                                )}
                                             </button>
                                         </div>
                                     )
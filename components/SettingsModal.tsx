@@ -1,26 +1,111 @@
 
-import React from 'react';
-import type { LlmConfig } from '../types';
-import { XIcon, KeyIcon, ServerIcon, InfoIcon } from './icons';
+import React, { useEffect, useRef, useState } from 'react';
+import type { LlmConfig, LLMProvider, ModelPrice, ModelPriceTable, UpstreamLLMProvider } from '../types';
+import { DEFAULT_MODELS, providerRequiresApiKey } from '../services/llmProviderService';
+import { DEFAULT_LOCAL_BASE_URL } from '../services/providers/localProvider';
+import { DEFAULT_RETRY_POLICY } from '../services/retryPolicy';
+import { DEFAULT_REQUEST_LIMITS } from '../services/requestScheduler';
+import { clearSessionFixture, getSessionFixture, loadSessionFixture, parseFixture, serializeFixture } from '../services/providers/mockProvider';
+import { findModelPrice } from '../services/usageAccounting';
+import { clearCachedResponses, countCachedResponses } from '../services/responseCache';
+import { XIcon, KeyIcon, ServerIcon, InfoIcon, ClockIcon, DatabaseIcon, DownloadIcon, UploadCloudIcon, TrashIcon, BarChartIcon, PlusIcon } from './icons';
 
 interface SettingsModalProps {
   config: LlmConfig;
   onConfigChange: (newConfig: LlmConfig) => void;
+  modelPrices: ModelPriceTable;
+  onModelPricesChange: (prices: ModelPriceTable) => void;
   onClose: () => void;
 }
 
-const SettingsModal: React.FC<SettingsModalProps> = ({ config, onConfigChange, onClose }) => {
+const SettingsModal: React.FC<SettingsModalProps> = ({ config, onConfigChange, modelPrices, onModelPricesChange, onClose }) => {
+  const [fixtureSize, setFixtureSize] = useState(() => Object.keys(getSessionFixture().entries).length);
+  const [fixtureError, setFixtureError] = useState<string | null>(null);
+  const fixtureInputRef = useRef<HTMLInputElement>(null);
+  const [cachedResponseCount, setCachedResponseCount] = useState<number | null>(null);
+
+  useEffect(() => { countCachedResponses().then(setCachedResponseCount); }, []);
+
+  const handleCacheClear = async () => {
+    await clearCachedResponses();
+    setCachedResponseCount(await countCachedResponses());
+  };
+  const upstreamProvider: UpstreamLLMProvider = config.provider === 'mock' ? (config.mockUpstream || 'gemini') : config.provider;
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     onConfigChange({ ...config, [e.target.name]: e.target.value });
   };
   
+  const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const provider = e.target.value as LLMProvider;
+    // The mock provider replays whatever model the fixture was recorded with, so keep the current one.
+    onConfigChange({ ...config, provider, model: provider === 'mock' ? config.model : DEFAULT_MODELS[provider] });
+  };
+
+  const handleFixtureUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      loadSessionFixture(parseFixture(await file.text()));
+      setFixtureSize(Object.keys(getSessionFixture().entries).length);
+      setFixtureError(null);
+    } catch (err) {
+      setFixtureError(err instanceof Error ? err.message : 'Could not read fixture file.');
+    }
+  };
+
+  const handleFixtureDownload = () => {
+    const blob = new Blob([serializeFixture(getSessionFixture())], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `llm-fixture-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFixtureClear = () => {
+    clearSessionFixture();
+    setFixtureSize(0);
+  };
+
   const handleRangeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
       onConfigChange({ ...config, temperature: parseFloat(e.target.value) });
   }
 
+  const retryPolicy = config.retry || DEFAULT_RETRY_POLICY;
+  const handleRetryChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = Math.max(0, Number(e.target.value) || 0);
+      const update = e.target.name === 'maxAttempts' ? { maxAttempts: Math.max(1, Math.round(value)) } : { baseDelayMs: value * 1000 };
+      onConfigChange({ ...config, retry: { ...retryPolicy, ...update } });
+  }
+
+  const requestLimits = config.requestLimits || DEFAULT_REQUEST_LIMITS;
+  const handleLimitChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = Math.max(0, Math.round(Number(e.target.value) || 0));
+      onConfigChange({ ...config, requestLimits: { ...requestLimits, [e.target.name]: value } });
+  }
+
+  const handlePriceChange = (model: string, field: keyof ModelPrice, value: string) => {
+      onModelPricesChange({ ...modelPrices, [model]: { ...modelPrices[model], [field]: Math.max(0, Number(value) || 0) } });
+  }
+
+  const handlePriceRemove = (model: string) => {
+      const { [model]: _removed, ...rest } = modelPrices;
+      onModelPricesChange(rest);
+  }
+
+  const handlePriceAdd = () => {
+      onModelPricesChange({ ...modelPrices, [config.model]: { inputPerMillion: 0, outputPerMillion: 0 } });
+  }
+
+  const canAddCurrentModel = upstreamProvider !== 'local' && !!config.model && !modelPrices[config.model];
+  const currentModelPrice = findModelPrice(config.model, modelPrices);
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 z-40 flex items-center justify-center" onClick={onClose}>
-      <div className="bg-white rounded-lg shadow-2xl w-full max-w-md p-6 relative" onClick={(e) => e.stopPropagation()}>
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-md max-h-[90vh] overflow-y-auto p-6 relative" onClick={(e) => e.stopPropagation()}>
         <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-700">
           <XIcon className="w-6 h-6" />
         </button>
@@ -29,7 +114,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ config, onConfigChange, o
         <div className="space-y-6">
           <div>
             <label htmlFor="apiKey" className="block text-sm font-semibold text-gray-700 mb-1 flex items-center">
-              <KeyIcon className="w-4 h-4 mr-2" /> API Key
+              <KeyIcon className="w-4 h-4 mr-2" /> API Key{!providerRequiresApiKey(config) && <span className="ml-1 font-normal text-gray-500">(optional)</span>}
             </label>
             <input
               type="password"
@@ -51,15 +136,88 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ config, onConfigChange, o
               id="provider"
               name="provider"
               value={config.provider}
-              onChange={handleInputChange}
+              onChange={handleProviderChange}
               className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-brand-accent focus:border-brand-accent bg-white"
             >
               <option value="gemini">Gemini</option>
-              <option value="openai" disabled>OpenAI (coming soon)</option>
-              <option value="anthropic" disabled>Anthropic (coming soon)</option>
+              <option value="openai">OpenAI</option>
+              <option value="anthropic">Anthropic</option>
+              <option value="local">Local / OpenAI-compatible server</option>
+              <option value="mock">Record / replay (offline fixtures)</option>
             </select>
           </div>
 
+          {config.provider === 'mock' && (
+            <div className="space-y-3 p-3 bg-gray-50 rounded-md border">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="mockMode" className="block text-sm font-semibold text-gray-700 mb-1">Mode</label>
+                  <select id="mockMode" name="mockMode" value={config.mockMode ?? 'replay'} onChange={handleInputChange} className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-brand-accent focus:border-brand-accent bg-white">
+                    <option value="replay">Replay</option>
+                    <option value="record">Record</option>
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="mockUpstream" className="block text-sm font-semibold text-gray-700 mb-1">Record from</label>
+                  <select id="mockUpstream" name="mockUpstream" value={config.mockUpstream ?? 'gemini'} onChange={handleInputChange} disabled={config.mockMode !== 'record'} className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-brand-accent focus:border-brand-accent bg-white disabled:bg-gray-100">
+                    <option value="gemini">Gemini</option>
+                    <option value="openai">OpenAI</option>
+                    <option value="anthropic">Anthropic</option>
+                    <option value="local">Local server</option>
+                  </select>
+                </div>
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="flex items-center text-gray-700"><DatabaseIcon className="w-4 h-4 mr-2" />{fixtureSize} recorded response{fixtureSize !== 1 && 's'}</span>
+                <div className="flex items-center space-x-2">
+                  <button onClick={() => fixtureInputRef.current?.click()} className="p-1 rounded text-gray-600 hover:bg-gray-200" title="Load fixture file"><UploadCloudIcon className="w-5 h-5" /></button>
+                  <button onClick={handleFixtureDownload} disabled={fixtureSize === 0} className="p-1 rounded text-gray-600 hover:bg-gray-200 disabled:text-gray-300" title="Download fixture file"><DownloadIcon className="w-5 h-5" /></button>
+                  <button onClick={handleFixtureClear} disabled={fixtureSize === 0} className="p-1 rounded text-gray-600 hover:bg-gray-200 disabled:text-gray-300" title="Clear recorded responses"><TrashIcon className="w-5 h-5" /></button>
+                </div>
+                <input ref={fixtureInputRef} type="file" accept=".json,application/json" className="sr-only" onChange={handleFixtureUpload} />
+              </div>
+              {fixtureError && <p className="text-xs text-red-600">{fixtureError}</p>}
+              <p className="text-xs text-gray-500">Record mode forwards every request to the selected provider (using the key and model above) and stores the responses. Replay mode answers only from the loaded fixture, matched by a hash of model, temperature, prompt and response schema, and never touches the network.</p>
+            </div>
+          )}
+
+          {config.provider === 'local' && (
+            <>
+              <div>
+                <label htmlFor="baseUrl" className="block text-sm font-semibold text-gray-700 mb-1 flex items-center">
+                  <ServerIcon className="w-4 h-4 mr-2" /> Base URL
+                </label>
+                <input
+                  type="text"
+                  id="baseUrl"
+                  name="baseUrl"
+                  value={config.baseUrl ?? ''}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-brand-accent focus:border-brand-accent"
+                  placeholder={DEFAULT_LOCAL_BASE_URL}
+                />
+                <p className="text-xs text-gray-500 mt-1">The server's OpenAI-compatible root, e.g. Ollama `http://localhost:11434/v1`, llama.cpp `http://localhost:8080/v1` or vLLM `http://localhost:8000/v1`. The server must allow requests from this page's origin (for Ollama, set `OLLAMA_ORIGINS`).</p>
+              </div>
+              <div>
+                <label htmlFor="structuredOutputMode" className="block text-sm font-semibold text-gray-700 mb-1 flex items-center">
+                  <InfoIcon className="w-4 h-4 mr-2" /> JSON Output Mode
+                </label>
+                <select
+                  id="structuredOutputMode"
+                  name="structuredOutputMode"
+                  value={config.structuredOutputMode ?? 'auto'}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-brand-accent focus:border-brand-accent bg-white"
+                >
+                  <option value="auto">Auto-detect</option>
+                  <option value="json_schema">Native JSON schema (response_format)</option>
+                  <option value="grammar">Grammar-constrained (llama.cpp / vLLM)</option>
+                  <option value="prompt">Prompt-enforced JSON</option>
+                </select>
+              </div>
+            </>
+          )}
+
           <div>
             <label htmlFor="model" className="block text-sm font-semibold text-gray-700 mb-1 flex items-center">
               <ServerIcon className="w-4 h-4 mr-2" /> Model Name
@@ -71,9 +229,9 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ config, onConfigChange, o
               value={config.model}
               onChange={handleInputChange}
               className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-brand-accent focus:border-brand-accent"
-              placeholder="e.g., gemini-2.5-flash"
+              placeholder={`e.g., ${DEFAULT_MODELS[upstreamProvider]}`}
             />
-            <p className="text-xs text-gray-500 mt-1">For Gemini, `gemini-2.5-flash` is recommended.</p>
+            <p className="text-xs text-gray-500 mt-1">For Gemini, `gemini-2.5-flash` is recommended. For OpenAI, use a model that supports structured outputs, such as `gpt-4o-mini`. For Anthropic, any model with tool use, such as `claude-sonnet-4-5`.</p>
           </div>
 
           <div>
@@ -96,6 +254,77 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ config, onConfigChange, o
               <span>More Creative</span>
             </div>
           </div>
+
+          <div>
+            <p className="block text-sm font-semibold text-gray-700 mb-1 flex items-center">
+              <ClockIcon className="w-4 h-4 mr-2" /> Request Budget &amp; Retries
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="text-xs text-gray-600">
+                Max attempts
+                <input type="number" name="maxAttempts" min="1" max="10" value={retryPolicy.maxAttempts} onChange={handleRetryChange} className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-brand-accent focus:border-brand-accent" />
+              </label>
+              <label className="text-xs text-gray-600">
+                Initial delay (s)
+                <input type="number" name="baseDelaySeconds" min="0" step="0.5" value={retryPolicy.baseDelayMs / 1000} onChange={handleRetryChange} className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-brand-accent focus:border-brand-accent" />
+              </label>
+            </div>
+            <div className="grid grid-cols-2 gap-3 mt-3">
+              <label className="text-xs text-gray-600">
+                Max concurrent requests
+                <input type="number" name="maxInFlight" min="0" value={requestLimits.maxInFlight} onChange={handleLimitChange} className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-brand-accent focus:border-brand-accent" />
+              </label>
+              <label className="text-xs text-gray-600">
+                Requests per minute
+                <input type="number" name="requestsPerMinute" min="0" value={requestLimits.requestsPerMinute} onChange={handleLimitChange} className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-brand-accent focus:border-brand-accent" />
+              </label>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Requests beyond these limits wait in a shared queue that takes turns between files. Use 0 for no limit. Rate-limited and temporarily failing requests are retried with jittered exponential backoff, doubling up to {retryPolicy.maxDelayMs / 1000}s. A delay suggested by the server always takes precedence.</p>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <p className="block text-sm font-semibold text-gray-700 flex items-center">
+                <BarChartIcon className="w-4 h-4 mr-2" /> Model Prices (USD per 1M tokens)
+              </p>
+              {canAddCurrentModel && (
+                <button onClick={handlePriceAdd} className="flex items-center text-xs text-brand-primary hover:underline" title={`Add a price for ${config.model}`}>
+                  <PlusIcon className="w-4 h-4 mr-1" /> {config.model}
+                </button>
+              )}
+            </div>
+            <div className="max-h-48 overflow-y-auto border rounded-md">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 text-gray-600 sticky top-0">
+                  <tr><th className="text-left px-2 py-1">Model</th><th className="text-left px-2 py-1">Input</th><th className="text-left px-2 py-1">Output</th><th /></tr>
+                </thead>
+                <tbody>
+                  {Object.entries(modelPrices).map(([model, price]: [string, ModelPrice]) => (
+                    <tr key={model} className={`border-t ${price === currentModelPrice ? 'bg-blue-50' : ''}`}>
+                      <td className="px-2 py-1 font-mono truncate" title={model}>{model}</td>
+                      <td className="px-2 py-1"><input type="number" min="0" step="0.01" value={price.inputPerMillion} onChange={(e) => handlePriceChange(model, 'inputPerMillion', e.target.value)} className="w-20 px-1 py-0.5 border border-gray-300 rounded" /></td>
+                      <td className="px-2 py-1"><input type="number" min="0" step="0.01" value={price.outputPerMillion} onChange={(e) => handlePriceChange(model, 'outputPerMillion', e.target.value)} className="w-20 px-1 py-0.5 border border-gray-300 rounded" /></td>
+                      <td className="px-1"><button onClick={() => handlePriceRemove(model)} className="p-1 rounded text-gray-400 hover:text-red-600" title={`Remove ${model}`}><TrashIcon className="w-4 h-4" /></button></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Used to estimate the cost of each run from the token counts the provider reports. A model matches its exact entry or the longest entry its name starts with. Local servers are counted as free; models without a price show tokens only.</p>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-semibold text-gray-700 flex items-center">
+                <DatabaseIcon className="w-4 h-4 mr-2" /> Response Cache
+              </p>
+              <div className="flex items-center space-x-2 text-sm text-gray-700">
+                <span>{cachedResponseCount ?? '…'} cached result{cachedResponseCount !== 1 && 's'}</span>
+                <button onClick={handleCacheClear} disabled={!cachedResponseCount} className="p-1 rounded text-gray-600 hover:bg-gray-200 disabled:text-gray-300" title="Clear cached results"><TrashIcon className="w-5 h-5" /></button>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Each pipeline stage is cached in this browser by its document text, active prompt text, schema, provider, endpoint URL, model and temperature, so re-running an unchanged paper costs nothing and shows as "Cached".</p>
+          </div>
         </div>
 
         <div className="mt-6 pt-4 border-t">
@@ -1,7 +1,7 @@
 
 import React from 'react';
-import { BarChartIcon, CheckCircleIcon, ClockIcon, FileTextIcon, BrainCircuitIcon } from './icons';
-import type { ProcessingStats } from '../types';
+import { BarChartIcon, CheckCircleIcon, ClockIcon, FileTextIcon, BrainCircuitIcon, DatabaseIcon } from './icons';
+import type { LlmStage, ProcessingStats, UsageTotals } from '../types';
 
 interface StatisticsDisplayProps {
   stats: ProcessingStats;
@@ -56,6 +56,58 @@ const TimeStatCard: React.FC<{ stats: ProcessingStats }> = ({ stats }) => {
     );
 };
 
+const STAGE_LABELS: Record<LlmStage, string> = {
+    structuring: 'Structuring',
+    paperCore: 'Paper core',
+    entities: 'Entities',
+    relationships: 'Relationships',
+};
+
+const formatTokens = (count: number): string => count >= 10_000 ? `${(count / 1000).toFixed(1)}k` : count.toLocaleString();
+
+// Sub-cent costs are common for single calls, so show more precision there.
+const formatCost = (cost: number | null): string => {
+    if (cost === null) return 'n/a';
+    return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+};
+
+const UsageStatCard: React.FC<{ totals: UsageTotals }> = ({ totals }) => (
+    <div className="flex items-center p-3 bg-gray-50 rounded-lg">
+        <div className="mr-3 text-brand-accent">
+            <DatabaseIcon className="w-6 h-6"/>
+        </div>
+        <div>
+            <p className="text-sm text-gray-500">Est. Cost</p>
+            <p className="text-xl font-bold text-brand-dark" title={totals.estimatedCost === null ? 'No price configured for this model' : undefined}>{formatCost(totals.estimatedCost)}</p>
+            <p className="text-xs text-gray-500 mt-1">
+                In: {formatTokens(totals.inputTokens)}, Out: {formatTokens(totals.outputTokens)} tokens ({totals.calls} calls)
+            </p>
+        </div>
+    </div>
+);
+
+const UsageBreakdownList: React.FC<{ title: string; data: Record<string, UsageTotals> }> = ({ title, data }) => {
+    const entries = Object.entries(data);
+    if (entries.length === 0) return null;
+
+    return (
+        <div>
+            <h4 className="text-md font-semibold text-brand-dark mb-2">{title}</h4>
+            <div className="max-h-36 overflow-y-auto pr-2 bg-gray-50 p-2 rounded-md space-y-1 text-sm border">
+                {entries.map(([key, totals]: [string, UsageTotals]) => (
+                    <div key={key} className="flex justify-between items-center bg-white p-1 rounded">
+                        <span className="text-gray-700 truncate" title={key}>{key}</span>
+                        <span className="text-xs text-gray-500 whitespace-nowrap ml-2">
+                            {formatTokens(totals.inputTokens)} / {formatTokens(totals.outputTokens)}
+                            <span className="font-bold text-brand-dark bg-gray-200 px-2 rounded-full ml-2">{formatCost(totals.estimatedCost)}</span>
+                        </span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
 const BreakdownList: React.FC<{ title: string; data: Record<string, number> }> = ({ title, data }) => {
     const sortedData = Object.entries(data).sort(([, a], [, b]) => b - a);
     if (sortedData.length === 0) return null;
@@ -77,22 +129,28 @@ const BreakdownList: React.FC<{ title: string; data: Record<string, number> }> =
 
 
 const StatisticsDisplay: React.FC<StatisticsDisplayProps> = ({ stats, onNavigateToEntities, onNavigateToTriples }) => {
+  const usageByStage = stats.usage
+    ? Object.fromEntries((Object.keys(STAGE_LABELS) as LlmStage[]).filter(stage => stats.usage!.byStage[stage]).map(stage => [STAGE_LABELS[stage], stats.usage!.byStage[stage]!]))
+    : {};
   return (
     <div className="bg-white p-4 rounded-lg shadow-md border border-gray-200">
         <h3 className="text-lg font-bold text-brand-dark mb-3 flex items-center">
             <BarChartIcon className="w-5 h-5 mr-2 text-brand-primary" />
             Processing Summary
         </h3>
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className={`grid grid-cols-2 ${stats.usage ? 'md:grid-cols-5' : 'md:grid-cols-4'} gap-3`}>
             <StatCard icon={<FileTextIcon className="w-6 h-6"/>} label="Files Processed" value={stats.filesProcessed} />
             <StatCard icon={<BrainCircuitIcon className="w-6 h-6"/>} label="Entities Selected" value={stats.entitiesFound} onClick={onNavigateToEntities} />
             <StatCard icon={<CheckCircleIcon className="w-6 h-6"/>} label="Triples Extracted" value={stats.triplesExtracted} onClick={onNavigateToTriples} />
             <TimeStatCard stats={stats} />
+            {stats.usage && <UsageStatCard totals={stats.usage.total} />}
         </div>
          <div className="col-span-2 md:col-span-4 mt-4 border-t pt-3">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <BreakdownList title="Entity Types" data={stats.entityTypeCounts} />
               <BreakdownList title="Predicate Types" data={stats.predicateTypeCounts} />
+              {stats.usage && <UsageBreakdownList title="Tokens In / Out by Stage" data={usageByStage} />}
+              {stats.usage && <UsageBreakdownList title="Tokens In / Out by File" data={stats.usage.byFile} />}
           </div>
       </div>
     </div>
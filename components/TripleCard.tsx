@@ -17,6 +17,11 @@ const getConfidenceColor = (score: number) => {
     return 'bg-red-100 text-red-800';
 }
 
+const formatPages = (pages?: [number, number]) => {
+    if (!pages) return '';
+    return pages[0] === pages[1] ? ` (p. ${pages[0]})` : ` (pp. ${pages[0]}–${pages[1]})`;
+}
+
 const TripleCard: React.FC<TripleCardProps> = ({ triple, index, subjectType, objectType }) => {
   return (
     <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden transform hover:scale-[1.01] transition-transform duration-200">
@@ -45,6 +50,14 @@ const TripleCard: React.FC<TripleCardProps> = ({ triple, index, subjectType, obj
             "{triple.evidenceText}"
           </blockquote>
         </div>
+        {triple.quantity && (
+            <p className="pl-4 mb-3 text-xs text-gray-600" title={triple.quantity.text}>
+                <span className="font-semibold">Value:</span> {triple.quantity.range ? `${triple.quantity.range[0]}–${triple.quantity.range[1]}` : triple.quantity.value} {triple.quantity.unit}
+            </p>
+        )}
+        {triple.literalIssue && (
+            <p className="pl-4 mb-3 text-xs text-red-700">{triple.literalIssue}</p>
+        )}
         {triple.justification && (
             <div className="pl-4 flex items-start text-xs text-gray-500 bg-gray-50 p-2 rounded-md">
                 <InfoIcon className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0 text-gray-400" />
@@ -55,8 +68,24 @@ const TripleCard: React.FC<TripleCardProps> = ({ triple, index, subjectType, obj
       <div className="bg-gray-50 px-5 py-2 border-t">
         <div className="flex items-center space-x-2 text-xs text-gray-500">
             <FileTextIcon className="w-4 h-4" />
-            <span className="font-mono truncate" title={triple.source}>Source: {triple.source}</span>
+            {triple.citation ? (
+                <span className="truncate" title={`${triple.citation}\nFile: ${triple.source}`}>
+                    Source: {triple.doi ? <a href={`https://doi.org/${triple.doi}`} target="_blank" rel="noopener noreferrer" className="hover:underline">{triple.citation}</a> : triple.citation}
+                </span>
+            ) : (
+                <span className="font-mono truncate" title={triple.source}>Source: {triple.source}</span>
+            )}
         </div>
+        {triple.cites && triple.cites.length > 0 && (
+            <div className="mt-1 text-xs text-gray-500 truncate" title={triple.cites.map(c => c.reference?.text || `${c.citation} (not found in the reference list)`).join('\n')}>
+                Cites: {triple.cites.map(c => c.citation).join('; ')}
+            </div>
+        )}
+        {triple.provenance && triple.provenance.length > 0 && (
+            <div className="mt-1 text-xs text-gray-500 truncate" title={triple.provenance.map(p => p.chunkId).join(', ')}>
+                Section{triple.provenance.length > 1 && 's'}: {triple.provenance.map(p => (p.sectionPath.join(' > ') || p.kind) + formatPages(p.pages)).join('; ')}
+            </div>
+        )}
       </div>
     </div>
   );
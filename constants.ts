@@ -1,4 +1,19 @@
-import type { Schema } from './types';
+import type { Schema, ModelPriceTable } from './types';
+
+// Approximate list prices in USD per million tokens. Model names match by longest prefix,
+// so "gemini-2.5-flash-preview-05-20" is priced as "gemini-2.5-flash". Editable in Settings.
+export const DEFAULT_MODEL_PRICES: ModelPriceTable = {
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10.0 },
+  'gemini-2.5-flash': { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+  'gpt-4o': { inputPerMillion: 2.50, outputPerMillion: 10.0 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.60 },
+  'gpt-4.1': { inputPerMillion: 2.00, outputPerMillion: 8.00 },
+  'gpt-4.1-mini': { inputPerMillion: 0.40, outputPerMillion: 1.60 },
+  'claude-sonnet-4-5': { inputPerMillion: 3.00, outputPerMillion: 15.0 },
+  'claude-haiku-4-5': { inputPerMillion: 1.00, outputPerMillion: 5.00 },
+  'claude-opus-4-1': { inputPerMillion: 15.0, outputPerMillion: 75.0 },
+};
 
 export const DEFAULT_SCHEMA: Schema = {
   meta: {
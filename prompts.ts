@@ -138,4 +138,30 @@ TEXT:
 {{text}}`
         }]
     },
+    TABLE_RELATIONSHIP_EXTRACTION: {
+        name: 'Table Relationship Extraction',
+        description: 'Extracts measurement triples from tables rebuilt from the PDF, reading each row as a record.',
+        activeVersion: 1,
+        versions: [{
+            version: 1,
+            date: '2026-10-19',
+            template: `GUIDANCE (from abstract): {{guidance}}
+You are an expert AI specializing in geological knowledge extraction from data tables.
+Task: Extract Subject-Predicate-Object triples from the table below.
+HOW TO READ THE TABLE:
+1. Each row is one record. The row's identifier (usually a sample ID, section or locality in the first column) is the subject of the facts in that row.
+2. The column header names the property; the cell holds its value. Keep units from the header with the value (e.g. "112.4 Ma", "35 m").
+3. Skip empty cells, "n.d." and "—", and do not invent values for them.
+4. USE ONLY PROVIDED ENTITIES as subjects. Objects may be entities or cell values.
+5. Predicates must come from the "Predicate Reference Guide".
+6. EVIDENCE IS MANDATORY: use the header and the row, written as "Header: value; Header: value".
+Typed Entity List:
+{{typed_entity_list}}
+Predicate Reference Guide:
+{{predicate_reference}}
+Output Format: Return JSON: { "triples": [...] }.
+TABLE:
+{{document}}`
+        }]
+    },
 }
@@ -0,0 +1,34 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect } from 'vitest';
+import { parseAbsoluteAges } from './absoluteAges';
+
+describe('parseAbsoluteAges', () => {
+  it('normalises ages and their uncertainty to years', () => {
+    const text = 'Ash beds gave 112.5 ± 0.4 Ma and ca. 98 Ma; the basement is 2.3 Ga and the terrace 15–12 ka. Zircon: 113.8 +0.3/−0.2 Ma (2σ).';
+    const ages = parseAbsoluteAges(text);
+    ages.forEach(age => expect(text.slice(age.start, age.end)).toBe(age.text));
+    expect(ages.map(({ start, end, ...age }) => age)).toEqual([
+      { years: 112_500_000, minusYears: 400_000, plusYears: 400_000, text: '112.5 ± 0.4 Ma' },
+      { years: 98_000_000, approximate: true, text: 'ca. 98 Ma' },
+      { years: 2_300_000_000, text: '2.3 Ga' },
+      { years: 13_500, range: [15_000, 12_000], text: '15–12 ka' },
+      { years: 113_800_000, minusYears: 200_000, plusYears: 300_000, sigma: 2, text: '113.8 +0.3/−0.2 Ma (2σ)' },
+    ]);
+  });
+
+  it('reads uncertainty and sigma written after the unit', () => {
+    expect(parseAbsoluteAges('dated at 99.6 Ma ± 0.9 Myr, 2 sigma')[0]).toMatchObject({ years: 99_600_000, minusYears: 900_000, sigma: 2, text: '99.6 Ma ± 0.9 Myr, 2 sigma' });
+  });
+
+  it('scales an uncertainty by its own unit when it has one', () => {
+    expect(parseAbsoluteAges('112.5 Ma ± 40 kyr')[0]).toMatchObject({ years: 112_500_000, minusYears: 40_000, plusYears: 40_000, text: '112.5 Ma ± 40 kyr' });
+    expect(parseAbsoluteAges('1.2 Ga ± 15 m.y.')[0]).toMatchObject({ years: 1_200_000_000, minusYears: 15_000_000, plusYears: 15_000_000 });
+    expect(parseAbsoluteAges('850 ka ± 12 ka')[0]).toMatchObject({ minusYears: 12_000, plusYears: 12_000 });
+  });
+
+  it('ignores numbers without an age unit', () => {
+    expect(parseAbsoluteAges('Bed 12 is 3.5 m thick at Mars 2 and Map 4.')).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+import type { AbsoluteAgeValue } from '../types';
+
+// Recognises numeric ages ("112.5 ± 0.4 Ma", "ca. 98 Ma", "15–12 ka", "113.8 +0.3/−0.2 Ma (2σ)")
+// and normalises them to years before present with their uncertainty.
+
+const UNIT_YEARS: Record<string, number> = { ka: 1e3, Ma: 1e6, Ga: 1e9 };
+// Units an uncertainty after the age may carry of its own ("112.5 Ma ± 40 kyr").
+// Keyed without dots, so "m.y." is looked up as "my".
+const UNCERTAINTY_UNIT_YEARS: Record<string, number> = { ka: 1e3, kyr: 1e3, Ma: 1e6, my: 1e6, Myr: 1e6, Ga: 1e9 };
+
+const NUMBER = '\\d+(?:\\.\\d+)?';
+const MINUS = '[-−–]';
+// "± 0.4", "+/- 0.4" or the asymmetric "+0.3/−0.2".
+const UNCERTAINTY = `\\s*(?:(?:±|\\+\\s*\\/\\s*${MINUS}|\\+${MINUS})\\s*(${NUMBER})|\\+\\s*(${NUMBER})\\s*\\/\\s*${MINUS}\\s*(${NUMBER}))`;
+const AGE = new RegExp(
+    `(?:\\b(ca\\.|c\\.|circa|about|approximately|around)\\s*|([~≈∼])\\s*)?(?<![\\d.])(${NUMBER})(?:\\s*(?:${MINUS}|to)\\s*(${NUMBER}))?`
+    + `(?:${UNCERTAINTY})?\\s*(ka|Ma|Ga)(?:\\s*BP)?(?![\\p{L}\\d])`,
+    'gu');
+// Uncertainty and confidence level may also follow the unit: "112.5 Ma ± 0.4 (2σ)".
+const TRAILING_UNCERTAINTY = new RegExp(`^${UNCERTAINTY}(?:\\s*(ka|kyr|Ma|m\\.?y\\.?|Myr|Ga)(?![\\p{L}]))?`, 'u');
+const SIGMA = /^,?\s*\(?\s*([123])\s*(?:σ|sigma|SD|s\.d\.)\s*\)?/u;
+
+const toYears = (value: string, multiplier: number): number => Math.round(Number(value) * multiplier);
+
+/** Numeric ages in the text, in years before present, with their uncertainty, sigma level and original span. */
+export const parseAbsoluteAges = (text: string): AbsoluteAgeValue[] => {
+    const ages: AbsoluteAgeValue[] = [];
+    for (const match of text.matchAll(AGE)) {
+        const [, approxWord, approxSign, first, second, symmetric, plus, minus, unit] = match;
+        const multiplier = UNIT_YEARS[unit];
+        let end = match.index! + match[0].length;
+        let uncertainty = { symmetric, plus, minus };
+        let uncertaintyMultiplier = multiplier;
+        const trailing = !symmetric && !plus ? text.slice(end).match(TRAILING_UNCERTAINTY) : null;
+        if (trailing) {
+            uncertainty = { symmetric: trailing[1], plus: trailing[2], minus: trailing[3] };
+            if (trailing[4]) uncertaintyMultiplier = UNCERTAINTY_UNIT_YEARS[trailing[4].replace(/\./g, '')];
+            end += trailing[0].length;
+        }
+        const sigma = text.slice(end).match(SIGMA);
+        if (sigma) end += sigma[0].length;
+
+        const bounds = second !== undefined ? [toYears(first, multiplier), toYears(second, multiplier)].sort((a, b) => b - a) : undefined;
+        const plusYears = uncertainty.symmetric ?? uncertainty.plus;
+        const minusYears = uncertainty.symmetric ?? uncertainty.minus;
+        ages.push({
+            years: bounds ? (bounds[0] + bounds[1]) / 2 : toYears(first, multiplier),
+            ...(minusYears !== undefined ? { minusYears: toYears(minusYears, uncertaintyMultiplier) } : {}),
+            ...(plusYears !== undefined ? { plusYears: toYears(plusYears, uncertaintyMultiplier) } : {}),
+            ...(sigma ? { sigma: Number(sigma[1]) } : {}),
+            ...(bounds ? { range: [bounds[0], bounds[1]] as [number, number] } : {}),
+            ...(approxWord || approxSign ? { approximate: true } : {}),
+            text: text.slice(match.index!, end),
+            start: match.index!,
+            end,
+        });
+    }
+    return ages;
+};
@@ -0,0 +1,144 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  extractMetadataFromFirstPage,
+  extractMetadataFromPdfInfo,
+  findInLibrary,
+  formatCitation,
+  mergeMetadata,
+  parseReferenceLibrary,
+  tripleCitation,
+} from './bibliographicMetadata';
+
+const FIRST_PAGE = [
+  'Contents lists available at ScienceDirect',
+  'Cretaceous Research 56 (2015) 1–20',
+  'journal homepage: www.elsevier.com/locate/CretRes',
+  'A new iguanodontian from the Cedar Mountain Formation',
+  'of eastern Utah',
+  'James I. Kirkland a,*, Donald D. DeBlieux b and Martha C. Hayden a',
+  'a Utah Geological Survey, Salt Lake City, UT 84114, USA',
+  '* Corresponding author. E-mail address: jim@utah.gov',
+  'Received 12 March 2014',
+  'Accepted 3 January 2015',
+  'http://dx.doi.org/10.1016/j.cretres.2015.01.004.',
+  'Abstract',
+  'We describe a new iguanodontian dinosaur from 2012 excavations.',
+].join('\n');
+
+const BIBTEX = `
+@comment{exported by a reference manager}
+@article{kirkland2015,
+  title = {A New {Iguanodontian} from the {Cedar Mountain} Formation},
+  author = {Kirkland, James I. and DeBlieux, Donald D.},
+  journal = "Cretaceous Research",
+  year = 2015,
+  doi = {10.1016/J.CRETRES.2015.01.004}
+}
+@book{other, title={Dinosaurs of Utah}, author={Gillette, David}, year={1999}}
+`;
+
+const CSL_JSON = JSON.stringify([
+  {
+    title: 'Hirnantian glaciation',
+    author: [{ family: 'Brenchley', given: 'P. J.' }, { literal: 'IGCP Working Group' }],
+    issued: { 'date-parts': [[1994, 5]] },
+    'container-title': 'Geology',
+    DOI: 'https://doi.org/10.1130/0091-7613(1994)022<0295:BAIEFA>2.3.CO;2',
+  },
+]);
+
+describe('extractMetadataFromFirstPage', () => {
+  it('reads the title, authors, journal, year and DOI', () => {
+    expect(extractMetadataFromFirstPage(FIRST_PAGE)).toEqual({
+      title: 'A new iguanodontian from the Cedar Mountain Formation of eastern Utah',
+      authors: ['James I. Kirkland', 'Donald D. DeBlieux', 'Martha C. Hayden'],
+      year: 2015,
+      journal: 'Cretaceous Research',
+      doi: '10.1016/j.cretres.2015.01.004',
+    });
+  });
+
+  it('keeps only the first title line when no author line follows', () => {
+    const metadata = extractMetadataFromFirstPage('Reef growth on Anticosti Island\nDepartment of Earth Sciences, McGill University\nAbstract\nText.');
+    expect(metadata.title).toBe('Reef growth on Anticosti Island');
+    expect(metadata.authors).toBeUndefined();
+  });
+});
+
+describe('extractMetadataFromPdfInfo', () => {
+  it('reads the title, authors and the journal line in the subject', () => {
+    expect(extractMetadataFromPdfInfo({
+      Title: 'A new iguanodontian from Utah',
+      Author: 'James I. Kirkland; Donald D. DeBlieux',
+      Subject: 'Cretaceous Research, 56 (2015) 1-20. doi:10.1016/j.cretres.2015.01.004',
+    })).toEqual({
+      title: 'A new iguanodontian from Utah',
+      authors: ['James I. Kirkland', 'Donald D. DeBlieux'],
+      year: 2015,
+      journal: 'Cretaceous Research',
+      doi: '10.1016/j.cretres.2015.01.004',
+    });
+  });
+
+  it('ignores placeholder titles', () => {
+    expect(extractMetadataFromPdfInfo({ Title: 'paper_final_v2.docx' })).toEqual({});
+    expect(extractMetadataFromPdfInfo({ Title: 'Microsoft Word - draft 3' })).toEqual({});
+  });
+});
+
+describe('reference library', () => {
+  it('parses BibTeX entries', () => {
+    const [article, book] = parseReferenceLibrary(BIBTEX);
+    expect(article).toEqual({
+      title: 'A New Iguanodontian from the Cedar Mountain Formation',
+      authors: ['Kirkland, James I.', 'DeBlieux, Donald D.'],
+      year: 2015,
+      journal: 'Cretaceous Research',
+      doi: '10.1016/j.cretres.2015.01.004',
+    });
+    expect(book).toEqual({ title: 'Dinosaurs of Utah', authors: ['Gillette, David'], year: 1999 });
+  });
+
+  it('parses CSL-JSON items', () => {
+    expect(parseReferenceLibrary(CSL_JSON)).toEqual([{
+      title: 'Hirnantian glaciation',
+      authors: ['Brenchley, P. J.', 'IGCP Working Group'],
+      year: 1994,
+      journal: 'Geology',
+      doi: '10.1130/0091-7613(1994)022<0295:baiefa>2.3.co;2',
+    }]);
+  });
+
+  it('rejects files without entries', () => {
+    expect(() => parseReferenceLibrary('no entries here')).toThrow(/No BibTeX or CSL-JSON entries/);
+    expect(() => parseReferenceLibrary('[{')).toThrow(/not valid CSL-JSON/);
+  });
+
+  it('finds papers by DOI, then by title', () => {
+    const library = parseReferenceLibrary(BIBTEX);
+    expect(findInLibrary(library, { doi: 'https://doi.org/10.1016/j.cretres.2015.01.004' })).toBe(library[0]);
+    expect(findInLibrary(library, { title: 'Dinosaurs of utah.' })).toBe(library[1]);
+    expect(findInLibrary(library, { title: 'Something else' })).toBeUndefined();
+  });
+});
+
+describe('citations', () => {
+  it('formats author-year references', () => {
+    const metadata = mergeMetadata('library', { authors: ['Kirkland, James I.', 'DeBlieux, Donald D.', 'Hayden, Martha'], year: 2015 }, {
+      title: 'A new iguanodontian.',
+      journal: 'Cretaceous Research',
+      doi: '10.1016/j.cretres.2015.01.004',
+    });
+    expect(formatCitation(metadata)).toBe('Kirkland et al. (2015). A new iguanodontian. Cretaceous Research. https://doi.org/10.1016/j.cretres.2015.01.004');
+    expect(formatCitation({ ...metadata, authors: ['James Kirkland', 'Donald DeBlieux'], journal: undefined, doi: undefined }))
+      .toBe('Kirkland & DeBlieux (2015). A new iguanodontian.');
+  });
+
+  it('leaves triples uncited without a title or authors', () => {
+    expect(tripleCitation(mergeMetadata('document', { year: 2015, doi: '10.1/x' }))).toEqual({ citation: undefined, doi: '10.1/x' });
+    expect(tripleCitation(undefined)).toEqual({ citation: undefined, doi: undefined });
+  });
+});
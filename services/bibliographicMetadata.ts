@@ -0,0 +1,268 @@
+import type { BibliographicMetadata, Triple } from '../types';
+
+// Title, authors, year, journal and DOI of a paper: read from the PDF info dictionary and the
+// first page, matched against a local reference library (BibTeX or CSL-JSON) and turned into
+// the citation carried by the paper's triples.
+
+export type PartialMetadata = Partial<Omit<BibliographicMetadata, 'source'>>;
+
+const DOI_PATTERN = /\b10\.\d{4,9}\/[^\s"<>]+/i;
+const YEAR = /\b(1[89]\d{2}|20\d{2})\b/;
+const JOURNAL_WORDS = /\b(journal|bulletin|proceedings|transactions|letters|reviews?|annals|acta|research|science|geology|geologica|pal(a)?eontology|palaeogeography|geosciences?|earth|nature)\b/i;
+// Front-matter lines that are neither the title nor the authors.
+const FRONT_MATTER_NOISE = /^(received|accepted|revised|published|available online|keywords?|key words|article info|article history|contents lists|journal homepage|handling editor|editor|corresponding author|e-?mail|www\.|https?:|©|\(c\)|copyright|research article|original article)\b/i;
+const ABSTRACT_HEADING = /^(abstract|summary|a b s t r a c t)\b/i;
+// The title and authors are looked for in this many lines when there is no abstract heading.
+const MAX_FRONT_LINES = 25;
+const MAX_TITLE_LINES = 3;
+const NAME_PARTICLES = new Set(['van', 'von', 'de', 'der', 'den', 'da', 'du', 'del', 'la', 'le', 'dos', 'di']);
+const FOOTNOTE_MARKS = /[\d*†‡§¶]+/g;
+// Info dictionary titles that are file names or placeholders from the authoring tool.
+const PLACEHOLDER_TITLE = /^(untitled|microsoft word|pii\b)|\.(pdf|docx?|tex|indd)$/i;
+
+export const normalizeDoi = (doi: string): string =>
+    doi.trim().replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:\s*)/i, '').replace(/[.,;)\]}]+$/, '').toLowerCase();
+
+export const findDoi = (text: string): string | undefined => {
+    const match = text.match(DOI_PATTERN);
+    return match ? normalizeDoi(match[0]) : undefined;
+};
+
+// The latest plausible year: received and accepted dates precede publication.
+const latestYear = (text: string): number | undefined => {
+    const thisYear = new Date().getFullYear();
+    const years = (text.match(new RegExp(YEAR.source, 'g')) || []).map(Number).filter(year => year <= thisYear);
+    return years.length > 0 ? Math.max(...years) : undefined;
+};
+
+// "Cretaceous Research 56 (2015) 1–20" and "Journal of Paleontology, 89(3), 2015" name their journal before the first number.
+const journalName = (line: string): string | undefined =>
+    line.split(/[,.]?\s*(?:vol(?:ume)?\.?\s*)?\d/i)[0].replace(/[\s,.;:]+$/, '').trim() || undefined;
+
+const isJournalLine = (line: string): boolean =>
+    line.length <= 150 && !FRONT_MATTER_NOISE.test(line) && JOURNAL_WORDS.test(line) && YEAR.test(line);
+
+const isNameWord = (word: string): boolean =>
+    /^\p{Lu}[\p{L}'’-]*\.?$|^(\p{Lu}\.-?)+$/u.test(word) || NAME_PARTICLES.has(word);
+
+const looksLikeName = (part: string): boolean => {
+    const words = part.split(' ');
+    return words.length >= 2 && words.length <= 5 && words.every(isNameWord) && words.some(word => word.replace(/\./g, '').length > 1);
+};
+
+// Affiliation letters ("Kirkland a,b") are dropped with the footnote marks.
+const splitAuthorList = (line: string): string[] =>
+    line.replace(FOOTNOTE_MARKS, '').split(/\s*(?:,|;|\band\b|&)\s*/)
+        .map(part => part.replace(/\s+/g, ' ').trim().replace(/\s[a-z]$/, ''))
+        .filter(part => part && !/^[a-z]$/.test(part));
+
+const isAuthorLine = (line: string): boolean => {
+    const parts = splitAuthorList(line);
+    return parts.length > 0 && parts.every(looksLikeName);
+};
+
+/**
+ * Reads the title, authors, journal, year and DOI from the text of a paper's first page.
+ * The title is the first substantial front-matter line (with up to two continuation lines)
+ * and the authors the line of names that follows it.
+ */
+export const extractMetadataFromFirstPage = (pageText: string): PartialMetadata => {
+    const lines = pageText.split('\n').map(line => line.trim()).filter(Boolean);
+    const abstractAt = lines.findIndex(line => ABSTRACT_HEADING.test(line));
+    const front = lines.slice(0, abstractAt > 0 ? abstractAt : MAX_FRONT_LINES);
+    const journalLine = front.find(isJournalLine);
+
+    const titleLines: string[] = [];
+    const authors: string[] = [];
+    for (const line of front) {
+        const candidate = line !== journalLine && !FRONT_MATTER_NOISE.test(line) && !DOI_PATTERN.test(line) && !line.includes('@');
+        if (titleLines.length === 0) {
+            if (candidate && line.split(/\s+/).length >= 3 && line.length <= 300) titleLines.push(line);
+        } else if (candidate && isAuthorLine(line)) {
+            authors.push(...splitAuthorList(line));
+        } else if (authors.length > 0 || !candidate || titleLines.length >= MAX_TITLE_LINES) {
+            break;
+        } else {
+            titleLines.push(line);
+        }
+    }
+    // Without an author line, the lines after the first are as likely affiliations as title.
+    const title = authors.length > 0 ? titleLines.join(' ') : titleLines[0];
+    const publishedLine = front.find(line => /^(published|available online)\b/i.test(line));
+    const doi = findDoi(pageText);
+    const year = [journalLine, publishedLine, front.join('\n')].map(text => (text ? latestYear(text) : undefined)).find(Boolean);
+
+    return {
+        ...(title ? { title } : {}),
+        ...(authors.length > 0 ? { authors } : {}),
+        ...(year ? { year } : {}),
+        ...(journalLine ? { journal: journalName(journalLine) } : {}),
+        ...(doi ? { doi } : {}),
+    };
+};
+
+const splitInfoAuthors = (author: string): string[] => {
+    const parts = author.split(/\s*(?:;|\band\b|&)\s*/).map(part => part.trim()).filter(Boolean);
+    if (parts.length === 1 && parts[0].includes(',')) {
+        const byComma = parts[0].split(/\s*,\s*/);
+        if (byComma.every(looksLikeName)) return byComma;
+    }
+    return parts;
+};
+
+/**
+ * Reads the PDF info dictionary. Publishers often put the journal, year and DOI in the
+ * Subject entry ("Cretaceous Research 56 (2015) 1-20. doi:10.1016/...").
+ */
+export const extractMetadataFromPdfInfo = (info: Record<string, unknown>): PartialMetadata => {
+    const entry = (key: string) => (typeof info[key] === 'string' ? (info[key] as string).replace(/\s+/g, ' ').trim() : '');
+    const title = entry('Title');
+    const authors = splitInfoAuthors(entry('Author'));
+    const subject = entry('Subject');
+    const doi = findDoi(Object.values(info).filter(value => typeof value === 'string').join(' '));
+    const subjectYear = YEAR.test(subject) ? latestYear(subject) : undefined;
+    return {
+        ...(title && !PLACEHOLDER_TITLE.test(title) && title.split(' ').length >= 3 ? { title } : {}),
+        ...(authors.length > 0 ? { authors } : {}),
+        ...(subjectYear ? { year: subjectYear } : {}),
+        ...(subjectYear && isJournalLine(subject) ? { journal: journalName(subject) } : {}),
+        ...(doi ? { doi } : {}),
+    };
+};
+
+/** Combines metadata field by field; earlier parts win. */
+export const mergeMetadata = (source: BibliographicMetadata['source'], ...parts: PartialMetadata[]): BibliographicMetadata => {
+    const first = <K extends keyof PartialMetadata>(key: K): PartialMetadata[K] =>
+        parts.map(part => part[key]).find(value => value !== undefined && (!Array.isArray(value) || value.length > 0));
+    return {
+        title: first('title'),
+        authors: first('authors') || [],
+        year: first('year'),
+        journal: first('journal'),
+        doi: first('doi'),
+        source,
+    };
+};
+
+// --- Reference library ---
+
+const cleanLatex = (value: string): string =>
+    value.replace(/\\[`'^"~=.]\s?/g, '').replace(/[{}]/g, '').replace(/\s+/g, ' ').trim();
+
+const parseBibtexFields = (body: string): Record<string, string> => {
+    const fields: Record<string, string> = {};
+    const fieldName = /\s*([\w-]+)\s*=\s*/y;
+    // The citation key runs up to the first comma.
+    let i = body.indexOf(',') + 1;
+    while (i > 0 && i < body.length) {
+        fieldName.lastIndex = i;
+        const name = fieldName.exec(body);
+        if (!name) break;
+        i = fieldName.lastIndex;
+        let value: string;
+        if (body[i] === '{' || body[i] === '"') {
+            const start = i;
+            let depth = 0;
+            for (; i < body.length; i++) {
+                if (body[i] === '{') depth++;
+                else if (body[i] === '}') depth--;
+                if (depth === 0 && (body[start] === '{' ? body[i] === '}' : body[i] === '"' && i > start)) break;
+            }
+            value = body.slice(start + 1, i);
+        } else {
+            const end = body.indexOf(',', i);
+            value = body.slice(i, end === -1 ? undefined : end);
+        }
+        fields[name[1].toLowerCase()] = cleanLatex(value);
+        i = body.indexOf(',', i) + 1;
+    }
+    return fields;
+};
+
+const parseBibtex = (text: string): PartialMetadata[] => {
+    const entries: PartialMetadata[] = [];
+    const entryStart = /@(\w+)\s*\{/g;
+    let match: RegExpExecArray | null;
+    while ((match = entryStart.exec(text))) {
+        if (/^(comment|preamble|string)$/i.test(match[1])) continue;
+        let depth = 1;
+        let end = entryStart.lastIndex;
+        for (; end < text.length && depth > 0; end++) {
+            if (text[end] === '{') depth++;
+            else if (text[end] === '}') depth--;
+        }
+        const fields = parseBibtexFields(text.slice(entryStart.lastIndex, end - 1));
+        entryStart.lastIndex = end;
+        const year = fields.year?.match(YEAR);
+        entries.push({
+            ...(fields.title ? { title: fields.title } : {}),
+            ...(fields.author ? { authors: fields.author.split(/\s+and\s+/i).map(author => author.trim()) } : {}),
+            ...(year ? { year: Number(year[0]) } : {}),
+            ...(fields.journal || fields.booktitle ? { journal: fields.journal || fields.booktitle } : {}),
+            ...(fields.doi ? { doi: normalizeDoi(fields.doi) } : {}),
+        });
+    }
+    return entries;
+};
+
+const parseCslJson = (text: string): PartialMetadata[] => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The reference library is not valid CSL-JSON.');
+    }
+    return (Array.isArray(data) ? data : [data]).map((item: any) => {
+        const year = item.issued?.['date-parts']?.[0]?.[0];
+        const journal = Array.isArray(item['container-title']) ? item['container-title'][0] : item['container-title'];
+        return {
+            ...(item.title ? { title: String(item.title) } : {}),
+            ...(Array.isArray(item.author) ? { authors: item.author.map((a: any) => a.literal || [a.family, a.given].filter(Boolean).join(', ')) } : {}),
+            ...(year ? { year: Number(year) } : {}),
+            ...(journal ? { journal: String(journal) } : {}),
+            ...(item.DOI ? { doi: normalizeDoi(String(item.DOI)) } : {}),
+        };
+    });
+};
+
+/** Reads a BibTeX (.bib) or CSL-JSON (.json) export from a reference manager. */
+export const parseReferenceLibrary = (text: string): PartialMetadata[] => {
+    const entries = /^\s*[[{]/.test(text) ? parseCslJson(text) : parseBibtex(text);
+    if (entries.length === 0) throw new Error('No BibTeX or CSL-JSON entries were found in the reference library.');
+    return entries;
+};
+
+const normalizeTitle = (title: string): string => title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/** The library entry with the paper's DOI or, failing that, its exact title. */
+export const findInLibrary = (library: PartialMetadata[], metadata: PartialMetadata): PartialMetadata | undefined => {
+    const doi = metadata.doi && normalizeDoi(metadata.doi);
+    const byDoi = doi ? library.find(entry => entry.doi === doi) : undefined;
+    if (byDoi || !metadata.title) return byDoi;
+    const title = normalizeTitle(metadata.title);
+    return library.find(entry => entry.title && normalizeTitle(entry.title) === title);
+};
+
+// --- Citations ---
+
+const surname = (author: string): string => (author.includes(',') ? author.split(',')[0] : author.split(/\s+/).pop() || author).trim();
+
+/** "Smith (2015)", "Smith & Jones (2015)" or "Smith et al. (2015)". */
+export const formatAuthorYear = (metadata: BibliographicMetadata): string => {
+    const names = metadata.authors.map(surname);
+    const who = names.length === 0 ? '' : names.length === 1 ? names[0] : names.length === 2 ? `${names[0]} & ${names[1]}` : `${names[0]} et al.`;
+    return [who, metadata.year ? `(${metadata.year})` : ''].filter(Boolean).join(' ');
+};
+
+/** A full reference, or '' when neither the title nor the authors are known. */
+export const formatCitation = (metadata: BibliographicMetadata): string => {
+    if (!metadata.title && metadata.authors.length === 0) return '';
+    const parts = [formatAuthorYear(metadata), metadata.title, metadata.journal].filter((part): part is string => !!part).map(part => part.replace(/\.$/, ''));
+    return `${parts.join('. ')}.${metadata.doi ? ` https://doi.org/${metadata.doi}` : ''}`;
+};
+
+/** The citation fields of the triples extracted from a paper. */
+export const tripleCitation = (metadata?: BibliographicMetadata): Pick<Triple, 'citation' | 'doi'> => ({
+    citation: (metadata && formatCitation(metadata)) || undefined,
+    doi: metadata?.doi,
+});
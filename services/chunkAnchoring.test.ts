@@ -0,0 +1,80 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect } from 'vitest';
+import { anchorChunks, measureCoverage } from './chunkAnchoring';
+
+const TEXT = '1. Introduction\nReefs grew quickly. They died out later.\n\n2. Methods\nSamples were cut. Thin sections were studied.';
+const at = (snippet: string) => TEXT.indexOf(snippet);
+
+describe('anchorChunks', () => {
+
+  it('should keep exact boundaries without warnings', () => {
+    const chunks = anchorChunks(TEXT, [
+      { id: 'c1', sectionPath: ['Introduction'], kind: 'body', start: 0, end: at('2. Methods') },
+      { id: 'c2', sectionPath: ['Methods'], kind: 'methods', start: at('2. Methods'), end: TEXT.length },
+    ]);
+
+    expect(chunks.map(c => c.content).join('')).toBe(TEXT);
+    expect(chunks.every(c => c.warnings === undefined)).toBe(true);
+    expect(chunks[1]).toMatchObject({ start: at('2. Methods'), end: TEXT.length });
+  });
+
+  it('should snap drifted starts to the heading line and ends to sentence edges', () => {
+    const chunks = anchorChunks(TEXT, [
+      { id: 'c1', sectionPath: ['Introduction'], kind: 'body', start: 5, end: at('out later.') + 2 },
+      { id: 'c2', sectionPath: ['Methods'], kind: 'methods', start: at('ethods'), end: at('studied.') + 3 },
+    ]);
+
+    expect(chunks[0].content.startsWith('1. Introduction')).toBe(true);
+    expect(chunks[0].content.trimEnd().endsWith('They died out later.')).toBe(true);
+    expect(chunks[1].content.startsWith('2. Methods')).toBe(true);
+    expect(chunks[1].content.endsWith('Thin sections were studied.')).toBe(true);
+    expect(chunks[1].warnings?.[0]).toMatch(/heading "Methods"/);
+  });
+
+  it('should trim overlaps and merge contained chunks', () => {
+    const chunks = anchorChunks(TEXT, [
+      { id: 'c1', sectionPath: ['Introduction'], kind: 'body', start: 0, end: at('Samples were cut.') + 17 },
+      { id: 'c2', sectionPath: ['Introduction'], kind: 'caption', start: at('They'), end: at('later.') + 6 },
+      { id: 'c3', sectionPath: ['Methods'], kind: 'methods', start: at('2. Methods'), end: TEXT.length },
+    ]);
+
+    expect(chunks.map(c => c.id)).toEqual(['c1', 'c3']);
+    expect(chunks[0].end).toBe(at('2. Methods'));
+    expect(chunks[0].warnings?.some(w => w.includes('Contained chunk c2'))).toBe(true);
+    expect(chunks[0].warnings?.some(w => w.includes('Overlapped chunk c3'))).toBe(true);
+  });
+
+  it('should absorb a small gap into the preceding chunk', () => {
+    const chunks = anchorChunks(TEXT, [
+      { id: 'c1', sectionPath: ['Introduction'], kind: 'body', start: 0, end: at('They') },
+      { id: 'c2', sectionPath: ['Methods'], kind: 'methods', start: at('2. Methods'), end: TEXT.length },
+    ]);
+
+    expect(chunks[0].end).toBe(at('2. Methods'));
+    expect(chunks[0].warnings?.[0]).toMatch(/^Absorbed \d+ uncovered characters before chunk c2/);
+    expect(measureCoverage(TEXT, chunks)).toMatchObject({ coverage: 1, gaps: 0, repairedChunks: 1 });
+  });
+
+});
+
+describe('measureCoverage', () => {
+
+  it('should report uncovered text as gaps', () => {
+    const chunks = anchorChunks(TEXT, [
+      { id: 'c1', sectionPath: ['Methods'], kind: 'methods', start: at('2. Methods'), end: TEXT.length },
+    ]);
+    const coverage = measureCoverage(TEXT, chunks)!;
+
+    expect(coverage.gaps).toBe(1);
+    expect(coverage.uncoveredChars).toBe(TEXT.slice(0, at('2. Methods')).replace(/\s/g, '').length);
+    expect(coverage.coverage).toBeGreaterThan(0.3);
+    expect(coverage.coverage).toBeLessThan(0.7);
+  });
+
+  it('should return undefined for chunks without offsets', () => {
+    expect(measureCoverage(TEXT, [{ id: 'c1', sectionPath: [], kind: 'body', content: TEXT, selected: true }])).toBeUndefined();
+  });
+
+});
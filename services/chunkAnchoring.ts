@@ -0,0 +1,186 @@
+import type { ChunkCoverage, DocumentChunk } from '../types';
+
+// Post-processing for chunk offsets reported by the model, which drift, overlap and cut words in
+// half. Boundaries are snapped to the section heading or the nearest sentence edge, overlaps are
+// trimmed, small gaps are absorbed, and every chunk that was changed carries a warning.
+
+export interface ChunkSpan {
+    id: string;
+    sectionPath: string[];
+    kind: DocumentChunk['kind'];
+    start: number;
+    end: number;
+}
+
+// How far a boundary may move to reach the section heading.
+const HEADING_SEARCH_CHARS = 300;
+// How far a boundary may move to reach a sentence or paragraph edge, and failing that a word edge.
+const SENTENCE_SEARCH_CHARS = 150;
+const WORD_SEARCH_CHARS = 40;
+// Uncovered text up to this length is appended to the preceding chunk; longer gaps are left and reported.
+const MAX_ABSORBED_GAP_CHARS = 200;
+// A heading may be preceded on its line by section numbering such as "2.1.3".
+const MAX_HEADING_PREFIX_CHARS = 10;
+
+const isSpace = (ch: string | undefined): boolean => ch !== undefined && /\s/.test(ch);
+
+// Sentence ends: after terminal punctuation followed by whitespace, at a line break, or at the text edges.
+const isSentenceEnd = (text: string, pos: number): boolean =>
+    pos === 0 || pos === text.length || text[pos - 1] === '\n' || (/[.!?]/.test(text[pos - 1]) && isSpace(text[pos]));
+
+const isWordEdge = (text: string, pos: number): boolean =>
+    pos === 0 || pos === text.length || isSpace(text[pos - 1]) || isSpace(text[pos]);
+
+const skipSpaces = (text: string, pos: number): number => {
+    while (pos < text.length && isSpace(text[pos])) pos++;
+    return pos;
+};
+
+// The nearest position within `radius` of `pos` that satisfies `test`, preferring the closer side.
+const nearest = (text: string, pos: number, radius: number, test: (text: string, pos: number) => boolean): number | null => {
+    for (let distance = 0; distance <= radius; distance++) {
+        if (pos - distance >= 0 && test(text, pos - distance)) return pos - distance;
+        if (pos + distance <= text.length && test(text, pos + distance)) return pos + distance;
+    }
+    return null;
+};
+
+// Start of the heading line nearest `pos`, if the heading text occurs at the start of a line nearby.
+const findHeading = (text: string, pos: number, title: string): number | null => {
+    const needle = title.trim().toLowerCase();
+    if (!needle) return null;
+    const from = Math.max(0, pos - HEADING_SEARCH_CHARS);
+    const haystack = text.slice(from, pos + HEADING_SEARCH_CHARS + needle.length).toLowerCase();
+    let best: number | null = null;
+    for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + 1)) {
+        const found = from + i;
+        const lineStart = text.lastIndexOf('\n', found - 1) + 1;
+        const prefix = text.slice(lineStart, found);
+        if (prefix.length > MAX_HEADING_PREFIX_CHARS || !/^[\d.\s]*$/.test(prefix)) continue;
+        if (best === null || Math.abs(lineStart - pos) < Math.abs(best - pos)) best = lineStart;
+    }
+    return best;
+};
+
+const snapStart = (text: string, span: ChunkSpan, opensSection: boolean): { pos: number; target: string } => {
+    const title = span.sectionPath[span.sectionPath.length - 1] || '';
+    const heading = opensSection ? findHeading(text, span.start, title) : null;
+    if (heading !== null) return { pos: heading, target: `the heading "${title}"` };
+    const sentence = nearest(text, span.start, SENTENCE_SEARCH_CHARS, isSentenceEnd);
+    if (sentence !== null) return { pos: skipSpaces(text, sentence), target: 'a sentence boundary' };
+    const word = nearest(text, span.start, WORD_SEARCH_CHARS, isWordEdge);
+    return { pos: word === null ? span.start : skipSpaces(text, word), target: 'a word boundary' };
+};
+
+const snapEnd = (text: string, end: number): { pos: number; target: string } => {
+    const sentence = nearest(text, end, SENTENCE_SEARCH_CHARS, isSentenceEnd);
+    if (sentence !== null) return { pos: sentence, target: 'a sentence boundary' };
+    const word = nearest(text, end, WORD_SEARCH_CHARS, isWordEdge);
+    return { pos: word ?? end, target: 'a word boundary' };
+};
+
+// Moves over whitespace only are not worth a warning.
+const movedAcrossText = (text: string, from: number, to: number): boolean =>
+    text.slice(Math.min(from, to), Math.max(from, to)).trim().length > 0;
+
+interface AnchoredSpan extends ChunkSpan {
+    warnings: string[];
+}
+
+/**
+ * Turns model-reported chunk spans into chunks whose boundaries fall on headings or sentence
+ * edges, in document order, without overlaps. Spans must already be offsets into `rawText`.
+ */
+export const anchorChunks = (rawText: string, spans: ChunkSpan[]): DocumentChunk[] => {
+    // Only the first body chunk of a section starts at its heading; later ones continue the section.
+    const openedSections = new Set<string>();
+    const anchored: AnchoredSpan[] = [...spans]
+        .sort((a, b) => a.start - b.start)
+        .map(span => {
+            const warnings: string[] = [];
+            let start = Math.max(0, Math.min(span.start, rawText.length));
+            let end = Math.max(0, Math.min(span.end, rawText.length));
+            if (start !== span.start || end !== span.end) warnings.push('Offsets outside the document were clamped.');
+            if (end < start) [start, end] = [end, start];
+
+            const sectionKey = span.sectionPath.join('\u0000');
+            const opensSection = span.kind !== 'caption' && span.kind !== 'table' && !openedSections.has(sectionKey);
+            openedSections.add(sectionKey);
+            const snappedStart = snapStart(rawText, { ...span, start }, opensSection);
+            if (movedAcrossText(rawText, start, snappedStart.pos)) {
+                warnings.push(`Start moved ${snappedStart.pos - start} characters to ${snappedStart.target}.`);
+            }
+            const snappedEnd = snapEnd(rawText, end);
+            if (movedAcrossText(rawText, end, snappedEnd.pos)) {
+                warnings.push(`End moved ${snappedEnd.pos - end} characters to ${snappedEnd.target}.`);
+            }
+            return { ...span, start: snappedStart.pos, end: snappedEnd.pos, warnings };
+        })
+        .filter(span => rawText.slice(span.start, span.end).trim().length > 0)
+        .sort((a, b) => a.start - b.start);
+
+    const result: AnchoredSpan[] = [];
+    for (const span of anchored) {
+        const previous = result[result.length - 1];
+        if (previous && span.end <= previous.end) {
+            previous.warnings.push(`Contained chunk ${span.id} (${span.kind}), which was merged into it.`);
+            continue;
+        }
+        if (previous && span.start < previous.end) {
+            previous.warnings.push(`Overlapped chunk ${span.id} by ${previous.end - span.start} characters; end moved back.`);
+            previous.end = span.start;
+        } else if (previous && span.start > previous.end) {
+            const gap = rawText.slice(previous.end, span.start);
+            if (gap.trim().length > 0 && gap.length <= MAX_ABSORBED_GAP_CHARS) {
+                previous.warnings.push(`Absorbed ${gap.length} uncovered characters before chunk ${span.id}.`);
+                previous.end = span.start;
+            }
+        }
+        result.push(span);
+    }
+
+    return result
+        .filter(span => rawText.slice(span.start, span.end).trim().length > 0)
+        .map(({ id, sectionPath, kind, start, end, warnings }) => ({
+            id,
+            sectionPath,
+            kind,
+            content: rawText.substring(start, end),
+            selected: true,
+            start,
+            end,
+            ...(warnings.length > 0 ? { warnings } : {}),
+        }));
+};
+
+/**
+ * Share of the document's non-whitespace characters that fall inside some chunk, with the
+ * uncovered stretches counted as gaps. Returns undefined for chunks without offsets.
+ */
+export const measureCoverage = (rawText: string, chunks: DocumentChunk[]): ChunkCoverage | undefined => {
+    if (chunks.some(chunk => chunk.start === undefined || chunk.end === undefined)) return undefined;
+    const covered = new Uint8Array(rawText.length);
+    chunks.forEach(chunk => covered.fill(1, chunk.start, chunk.end));
+
+    let total = 0;
+    let uncoveredChars = 0;
+    let gaps = 0;
+    let inGap = false;
+    for (let i = 0; i < rawText.length; i++) {
+        if (isSpace(rawText[i])) continue;
+        total++;
+        if (covered[i]) {
+            inGap = false;
+        } else {
+            uncoveredChars++;
+            if (!inGap) gaps++;
+            inGap = true;
+        }
+    }
+    return {
+        coverage: total === 0 ? 1 : (total - uncoveredChars) / total,
+        gaps,
+        uncoveredChars,
+        repairedChunks: chunks.filter(chunk => chunk.warnings && chunk.warnings.length > 0).length,
+    };
+};
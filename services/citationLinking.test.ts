@@ -0,0 +1,90 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect } from 'vitest';
+import type { DocumentChunk } from '../types';
+import { findInTextCitations, linkTripleCitations, parseReferenceList, resolveCitation } from './citationLinking';
+
+const REFERENCES = [
+  'References',
+  'Kirkland, J.I., 1997a. Iguanodontids of the Cedar Mountain Formation. Utah Geological',
+  'Survey Bulletin 45, 1–20.',
+  'Kirkland, J.I., Britt, B., Burge, D.L., 1997. Lower to middle Cretaceous dinosaur faunas',
+  'of the central Colorado Plateau. Brigham Young University Geology Studies 42, 69–103.',
+  'Kirkland, J.I., Madsen, S.K., 2007. The Lower Cretaceous Cedar Mountain Formation.',
+  'https://doi.org/10.1234/ugs.2007.1',
+  'van der Berg, A., 2001. Ammonites. Journal of Stratigraphy 3, 1–5.',
+].join('\n');
+
+describe('parseReferenceList', () => {
+  it('splits entries and reads authors, year, title and DOI', () => {
+    const references = parseReferenceList(REFERENCES);
+    expect(references).toHaveLength(4);
+    expect(references[0]).toMatchObject({ id: 'ref1', authors: ['Kirkland'], year: 1997, yearSuffix: 'a', title: 'Iguanodontids of the Cedar Mountain Formation' });
+    expect(references[0].text).toContain('Survey Bulletin 45');
+    expect(references[1].authors).toEqual(['Kirkland', 'Britt', 'Burge']);
+    expect(references[2]).toMatchObject({ authors: ['Kirkland', 'Madsen'], year: 2007, doi: '10.1234/ugs.2007.1' });
+    expect(references[3].authors).toEqual(['van der Berg']);
+  });
+
+  it('numbers entries of numbered lists', () => {
+    const references = parseReferenceList('1. Smith JA, Jones K. Reefs of Utah. Geology. 2001;45:1-20.\n2. Brown T. Corals. Nature. 1999;3:4.');
+    expect(references.map(ref => [ref.number, ref.year, ref.authors[0]])).toEqual([[1, 2001, 'Smith'], [2, 1999, 'Brown']]);
+  });
+});
+
+describe('findInTextCitations', () => {
+  it('finds parenthetical, narrative and numbered citations', () => {
+    expect(findInTextCitations('Iguanodonts are common (e.g., Kirkland et al., 1997; Kirkland 1997a, 1998; Fig. 3).')).toEqual([
+      { text: 'e.g., Kirkland et al., 1997', authors: ['Kirkland'], etAl: true, year: 1997 },
+      { text: 'Kirkland 1997a, 1998', authors: ['Kirkland'], etAl: false, year: 1997, yearSuffix: 'a' },
+      { text: 'Kirkland 1997a, 1998', authors: ['Kirkland'], etAl: false, year: 1998 },
+    ]);
+    expect(findInTextCitations('As Kirkland and Madsen (2007) showed, the unit is thin.')).toEqual([
+      { text: 'Kirkland and Madsen (2007)', authors: ['Kirkland', 'Madsen'], etAl: false, year: 2007 },
+    ]);
+    expect(findInTextCitations('Reefs were widespread [2, 4-5].').map(c => c.number)).toEqual([2, 4, 5]);
+  });
+
+  it('ignores parentheses without an author and year', () => {
+    expect(findInTextCitations('The bed is thin (2000 m above base) and dated (112 Ma).')).toEqual([]);
+  });
+});
+
+describe('resolveCitation', () => {
+  const references = parseReferenceList(REFERENCES);
+
+  it('tells apart works by the same first author and year', () => {
+    const [etAl, suffixed] = findInTextCitations('(Kirkland et al., 1997; Kirkland, 1997a)');
+    expect(resolveCitation(etAl, references)?.id).toBe('ref2');
+    expect(resolveCitation(suffixed, references)?.id).toBe('ref1');
+  });
+
+  it('matches surnames without their particles or accents', () => {
+    expect(resolveCitation(findInTextCitations('(Bérg, 2001)')[0], references)?.id).toBe('ref4');
+    expect(resolveCitation(findInTextCitations('(Smith, 2001)')[0], references)).toBeUndefined();
+  });
+});
+
+describe('linkTripleCitations', () => {
+  const references = parseReferenceList(REFERENCES);
+  const chunks: DocumentChunk[] = [{
+    id: 's3', sectionPath: ['Geological Setting'], kind: 'body', selected: true,
+    content: 'The formation overlies the Morrison Formation. It yields iguanodonts at many sites (Kirkland et al., 1997). We found a new femur.',
+  }];
+  const provenance = [{ chunkId: 's3', sectionPath: ['Geological Setting'], kind: 'body' as const }];
+
+  it('records the works cited in the whole evidence sentence', () => {
+    const [cited, own] = linkTripleCitations([
+      { evidenceText: 'It yields iguanodonts at many sites', provenance },
+      { evidenceText: 'We found a new femur.', provenance },
+    ], references, chunks);
+    expect(cited.cites).toEqual([{ citation: 'Kirkland et al., 1997', reference: references[1] }]);
+    expect(own.cites).toBeUndefined();
+  });
+
+  it('ignores bracketed numbers when the reference list is not numbered', () => {
+    const [triple] = linkTripleCitations([{ evidenceText: 'Bed 4 yields teeth [3].' }], references, []);
+    expect(triple.cites).toBeUndefined();
+  });
+});
@@ -0,0 +1,154 @@
+import type { CitedWork, DocumentChunk, ReferenceEntry, Triple } from '../types';
+import { findDoi } from './bibliographicMetadata';
+
+// Parses a paper's reference list and links the in-text citations of triple evidence to it,
+// so triples that restate prior work can be told apart from the paper's own observations.
+
+export interface InTextCitation {
+    // The citation as written, e.g. "Kirkland et al., 1997".
+    text: string;
+    authors: string[];
+    etAl: boolean;
+    year?: number;
+    yearSuffix?: string;
+    // For numbered styles ("[12]").
+    number?: number;
+}
+
+const YEAR_SOURCE = '(?:1[89]|20)\\d{2}';
+const NUMBERED_ENTRY = /^\s*\[?(\d{1,3})[\].)]\s+/;
+const PARTICLES = '(?:(?:van|von|de|der|den|da|du|del|la|le|di)\\s+)*';
+// "Kirkland, J.I." or "van der Berg, A." (author-year styles) and "Smith JA," (Vancouver).
+const AUTHOR_ENTRY = new RegExp(`^${PARTICLES}(\\p{Lu}[\\p{L}'’-]+(?:[\\s-]\\p{Lu}[\\p{L}'’-]+)?,\\s+\\p{Lu}|\\p{Lu}[\\p{L}'’-]+\\s+\\p{Lu}{1,3}[,.])`, 'u');
+const NAME_START = new RegExp(`^${PARTICLES}\\p{Lu}`, 'u');
+const ENTRY_YEAR = new RegExp(`\\(?\\b(${YEAR_SOURCE})([a-z])?\\b\\)?`);
+// Numbered (Vancouver) entries give the year after the title; their authors end at the period after the last initials ("Jones K. Title").
+const VANCOUVER_AUTHORS_END = /(?<=(?:^|[\s,])\p{Lu}{1,3})\.\s/u;
+const REFERENCES_HEADING = /^(references( cited)?|bibliography|literature cited)$/i;
+const INITIALS = /^(\p{Lu}\.?-?){1,3}$/u;
+const CITATION_LEAD_IN = /^(e\.g\.,?|i\.e\.,?|see( also)?|cf\.|after|following|as in|reviewed in)\s+/i;
+const PARENTHETICAL = new RegExp(`\\(([^()]*\\b${YEAR_SOURCE}[a-z]?\\b[^()]*)\\)`, 'g');
+const CITED_WORK = new RegExp(`^(\\p{Lu}[\\p{L}'’ &-]*?)(\\s+et al\\.?)?,?\\s+(${YEAR_SOURCE}[a-z]?(?:\\s*,\\s*${YEAR_SOURCE}[a-z]?)*)$`, 'u');
+const NARRATIVE = new RegExp(`(\\p{Lu}[\\p{L}'’-]+(?:\\s+et al\\.|\\s+(?:and|&)\\s+\\p{Lu}[\\p{L}'’-]+)?)\\s+\\((${YEAR_SOURCE}[a-z]?(?:\\s*[,;]\\s*${YEAR_SOURCE}[a-z]?)*)\\)`, 'gu');
+const NUMERIC = /\[(\d{1,3}(?:\s*[,–-]\s*\d{1,3})*)\]/g;
+
+// Compares surnames by their last word without case or accents, so "van der Berg" matches "Berg".
+const surnameKey = (surname: string): string =>
+    surname.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().trim().split(/\s+/).pop() || '';
+
+const surnamesIn = (segment: string): string[] => segment
+    .replace(/\bet al\.?/g, '').replace(/\((eds?|coords?)\.?\)/gi, '')
+    .split(/\s*(?:,|;|&|\band\b)\s*/)
+    .map(part => part.split(/\s+/).filter(word => word && !INITIALS.test(word)).join(' '))
+    .filter(name => NAME_START.test(name) && name.length > 1 && !/^eds?\.?$/i.test(name));
+
+const parseEntry = (text: string, index: number): ReferenceEntry => {
+    const numbered = text.match(NUMBERED_ENTRY);
+    const body = numbered ? text.slice(numbered[0].length) : text;
+    const year = body.match(ENTRY_YEAR);
+    const yearAt = year?.index ?? -1;
+    const rest = year ? body.slice(yearAt + year[0].length).replace(/^[\s).,:]+/, '') : '';
+    const title = rest.split(/\.\s/)[0].trim();
+    const doi = findDoi(text);
+    return {
+        id: `ref${index + 1}`,
+        ...(numbered ? { number: Number(numbered[1]) } : {}),
+        authors: surnamesIn(numbered ? body.slice(0, yearAt >= 0 ? yearAt : undefined).split(VANCOUVER_AUTHORS_END)[0] : body.slice(0, yearAt >= 0 ? yearAt : undefined)),
+        ...(year ? { year: Number(year[1]) } : {}),
+        ...(year?.[2] ? { yearSuffix: year[2] } : {}),
+        ...(title.length >= 10 ? { title } : {}),
+        ...(doi ? { doi } : {}),
+        text,
+    };
+};
+
+/**
+ * Splits the text of a references section into entries. A line starts a new entry when it is
+ * numbered or opens with an author name, and the entry before it already has its year;
+ * other lines continue the entry before them.
+ */
+export const parseReferenceList = (text: string): ReferenceEntry[] => {
+    const entries: string[] = [];
+    for (const line of text.split('\n').map(l => l.trim()).filter(l => l && !REFERENCES_HEADING.test(l))) {
+        const current = entries[entries.length - 1];
+        const startsEntry = NUMBERED_ENTRY.test(line) || (AUTHOR_ENTRY.test(line) && (!current || ENTRY_YEAR.test(current)));
+        if (startsEntry || current === undefined) entries.push(line);
+        else entries[entries.length - 1] = `${current} ${line}`;
+    }
+    return entries.filter(entry => ENTRY_YEAR.test(entry) || NUMBERED_ENTRY.test(entry)).map(parseEntry);
+};
+
+const parseCitedWork = (piece: string): InTextCitation[] => {
+    const match = piece.replace(CITATION_LEAD_IN, '').trim().match(CITED_WORK);
+    if (!match) return [];
+    const authors = match[1].split(/\s+(?:and|&)\s+/).map(name => name.trim()).filter(Boolean);
+    return match[3].split(/\s*,\s*/).map(yearText => ({
+        text: piece.trim(),
+        authors,
+        etAl: !!match[2],
+        year: Number(yearText.slice(0, 4)),
+        ...(yearText.length > 4 ? { yearSuffix: yearText.slice(4) } : {}),
+    }));
+};
+
+/** Author-year citations, parenthetical ("(Kirkland et al., 1997; Smith 2001a)") or narrative ("Kirkland (1997)"), and numbered ones ("[3-5]"). */
+export const findInTextCitations = (text: string): InTextCitation[] => {
+    const citations: InTextCitation[] = [];
+    for (const group of text.matchAll(PARENTHETICAL)) {
+        group[1].split(';').forEach(piece => citations.push(...parseCitedWork(piece)));
+    }
+    for (const narrative of text.matchAll(NARRATIVE)) {
+        narrative[2].split(/\s*[,;]\s*/).forEach(yearText => citations.push(...parseCitedWork(`${narrative[1]} ${yearText}`)
+            .map(citation => ({ ...citation, text: narrative[0] }))));
+    }
+    for (const numeric of text.matchAll(NUMERIC)) {
+        numeric[1].split(/\s*,\s*/).forEach(range => {
+            const [from, to] = range.split(/\s*[–-]\s*/).map(Number);
+            for (let n = from; n <= (to ?? from) && n - from < 50; n++) citations.push({ text: numeric[0], authors: [], etAl: false, number: n });
+        });
+    }
+    return citations;
+};
+
+/** The reference-list entry a citation points to: by number, or by first author, year and then the finer details. */
+export const resolveCitation = (citation: InTextCitation, references: ReferenceEntry[]): ReferenceEntry | undefined => {
+    if (citation.number !== undefined) return references.find(ref => ref.number === citation.number);
+    const firstAuthor = surnameKey(citation.authors[0] || '');
+    const candidates = references.filter(ref => ref.year === citation.year && ref.authors.length > 0 && surnameKey(ref.authors[0]) === firstAuthor);
+    const score = (ref: ReferenceEntry) =>
+        (citation.yearSuffix && ref.yearSuffix === citation.yearSuffix ? 4 : 0)
+        + (citation.authors.length === 2 && ref.authors.length === 2 && surnameKey(ref.authors[1]) === surnameKey(citation.authors[1]) ? 2 : 0)
+        + (citation.etAl === ref.authors.length > 2 ? 1 : 0);
+    return candidates.sort((a, b) => score(b) - score(a))[0];
+};
+
+// The whole sentence around an evidence quote in its chunk, since quotes often stop short of the citation.
+const evidenceSentence = (evidence: string, chunks: DocumentChunk[]): string => {
+    const quote = evidence.replace(/\s+/g, ' ').trim();
+    for (const chunk of chunks) {
+        const content = chunk.content.replace(/\s+/g, ' ');
+        const at = quote ? content.indexOf(quote) : -1;
+        if (at < 0) continue;
+        // A sentence ends at punctuation followed by a capital, so "et al. (1997)" does not end one.
+        const start = [...content.matchAll(/[.!?]\s+(?=\p{Lu})/gu)].filter(match => match.index! < at).pop();
+        const end = content.slice(at + quote.length).search(/[.!?](?=\s+\p{Lu}|\s*$)/u);
+        return content.slice(start ? start.index! + 1 : 0, end < 0 ? undefined : at + quote.length + end + 1).trim();
+    }
+    return evidence;
+};
+
+/** Records on each triple the prior works its evidence sentence cites, resolved against the reference list where possible. */
+export const linkTripleCitations = <T extends Pick<Triple, 'evidenceText' | 'provenance'>>(triples: T[], references: ReferenceEntry[], chunks: DocumentChunk[]): (T & Pick<Triple, 'cites'>)[] =>
+    triples.map((triple): T & Pick<Triple, 'cites'> => {
+        const chunkIds = new Set((triple.provenance || []).map(p => p.chunkId));
+        const sentence = evidenceSentence(triple.evidenceText, chunks.filter(chunk => chunkIds.has(chunk.id)));
+        const citations = findInTextCitations(sentence);
+        // Numbered citations only count when the reference list is numbered; otherwise "[3]" is more likely a figure part or note.
+        const usable = citations.filter(c => c.number === undefined || references.some(ref => ref.number !== undefined));
+        if (usable.length === 0) return triple;
+        const cites: CitedWork[] = usable.map(citation => {
+            const reference = resolveCitation(citation, references);
+            return { citation: citation.text, ...(reference ? { reference } : {}) };
+        }).filter((cited, i, all) => all.findIndex(other => other.citation === cited.citation && other.reference?.id === cited.reference?.id) === i);
+        return { ...triple, cites };
+    });
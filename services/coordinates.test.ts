@@ -0,0 +1,32 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect } from 'vitest';
+import { parseCoordinates } from './coordinates';
+
+describe('parseCoordinates', () => {
+  it('reads degrees-minutes-seconds and decimal degrees', () => {
+    const text = 'Section A (38°42′15″N, 110°12′W) and section B at S 33.8568°, E 151.2153°; core C at 38.70417, -110.20000.';
+    const coordinates = parseCoordinates(text);
+    coordinates.forEach(c => expect(text.slice(c.start, c.end)).toBe(c.text));
+    expect(coordinates.map(({ start, end, ...c }) => c)).toEqual([
+      { latitude: 38.704167, longitude: -110.2, format: 'dms', text: '38°42′15″N, 110°12′W' },
+      { latitude: -33.8568, longitude: 151.2153, format: 'decimal', text: 'S 33.8568°, E 151.2153°' },
+      { latitude: 38.70417, longitude: -110.2, format: 'decimal', text: '38.70417, -110.20000' },
+    ]);
+  });
+
+  it('converts UTM positions in both hemispheres', () => {
+    const [north] = parseCoordinates('UTM 12S 569561 4284252');
+    expect(north.latitude).toBeCloseTo(38.704167, 4);
+    expect(north.longitude).toBeCloseTo(-110.2, 4);
+    const [south] = parseCoordinates('UTM zone 56H, 334901 mE, 6252289 mN');
+    expect(south.latitude).toBeCloseTo(-33.8568, 4);
+    expect(south.longitude).toBeCloseTo(151.2153, 4);
+    expect(south.format).toBe('utm');
+  });
+
+  it('ignores numbers that are not positions', () => {
+    expect(parseCoordinates('Bedding dips 12° to the N; 3.5, 4.2 and 95°N, 200°E.')).toEqual([]);
+  });
+});
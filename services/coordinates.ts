@@ -0,0 +1,94 @@
+import type { GeoCoordinate } from '../types';
+
+// Recognises geographic coordinates given as degrees-minutes-seconds ("38°42′15″N, 110°12′W"),
+// decimal degrees ("38.7042°N 110.2°W", "38.70417, -110.20000") or UTM ("UTM 12S 569561 4284252")
+// and normalises them to WGS84 decimal degrees.
+
+export interface CoordinateMention extends GeoCoordinate {
+    start: number;
+    end: number;
+}
+
+const DEGREES = '\\d{1,3}(?:\\.\\d+)?';
+const MINUTES = '\\d{1,2}(?:\\.\\d+)?';
+// Hemisphere before or after; minutes and seconds optional; primes written many ways.
+const DMS_PART = (hemispheres: string) =>
+    `(?:([${hemispheres}])\\s*)?(${DEGREES})\\s*[°º˚]\\s*(?:(${MINUTES})\\s*['′’]\\s*)?(?:(${MINUTES})\\s*(?:["″”]|''|′′)\\s*)?([${hemispheres}])?`;
+const DMS = new RegExp(`${DMS_PART('NS')}\\s*[,;/]?\\s*(?:and\\s+)?${DMS_PART('EW')}(?![\\p{L}])`, 'gu');
+// Signed decimal pairs need four decimals, so ordinary number pairs are not taken for coordinates.
+const SIGNED_DECIMAL = /(?<![\d.-])(-?\d{1,2}\.\d{4,})\s*,\s*(-?\d{1,3}\.\d{4,})(?!\.?\d)/g;
+const UTM = /\bUTM\s*(?:zone\s*)?(\d{1,2})\s*([C-HJ-NP-X])\b[\s,:]*(\d{6}(?:\.\d+)?)\s*(?:m\s*)?E?[\s,]*(\d{7}(?:\.\d+)?)\s*(?:m\s*)?N?\b/g;
+
+const round = (degrees: number): number => Number(degrees.toFixed(6));
+
+const dmsToDegrees = (degrees: string, minutes?: string, seconds?: string): number =>
+    Number(degrees) + Number(minutes || 0) / 60 + Number(seconds || 0) / 3600;
+
+// WGS84 ellipsoid and the UTM scale factor.
+const A = 6378137;
+const F = 1 / 298.257223563;
+const K0 = 0.9996;
+
+/** Converts UTM easting and northing to latitude and longitude (Snyder's series, accurate to well under a metre). */
+export const utmToLatLon = (zone: number, northern: boolean, easting: number, northing: number): { latitude: number; longitude: number } => {
+    const e2 = F * (2 - F);
+    const ep2 = e2 / (1 - e2);
+    const x = easting - 500000;
+    const y = northern ? northing : northing - 10000000;
+    const mu = y / K0 / (A * (1 - e2 / 4 - 3 * e2 ** 2 / 64 - 5 * e2 ** 3 / 256));
+    const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+    const phi1 = mu
+        + (3 * e1 / 2 - 27 * e1 ** 3 / 32) * Math.sin(2 * mu)
+        + (21 * e1 ** 2 / 16 - 55 * e1 ** 4 / 32) * Math.sin(4 * mu)
+        + (151 * e1 ** 3 / 96) * Math.sin(6 * mu)
+        + (1097 * e1 ** 4 / 512) * Math.sin(8 * mu);
+    const sin1 = Math.sin(phi1);
+    const n1 = A / Math.sqrt(1 - e2 * sin1 ** 2);
+    const t1 = Math.tan(phi1) ** 2;
+    const c1 = ep2 * Math.cos(phi1) ** 2;
+    const r1 = A * (1 - e2) / (1 - e2 * sin1 ** 2) ** 1.5;
+    const d = x / (n1 * K0);
+    const latitude = phi1 - (n1 * Math.tan(phi1) / r1) * (d ** 2 / 2
+        - (5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * ep2) * d ** 4 / 24
+        + (61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * ep2 - 3 * c1 ** 2) * d ** 6 / 720);
+    const longitude = (d - (1 + 2 * t1 + c1) * d ** 3 / 6
+        + (5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * ep2 + 24 * t1 ** 2) * d ** 5 / 120) / Math.cos(phi1);
+    const centralMeridian = (zone - 1) * 6 - 180 + 3;
+    return { latitude: round(latitude * 180 / Math.PI), longitude: round(centralMeridian + longitude * 180 / Math.PI) };
+};
+
+const isValid = ({ latitude, longitude }: { latitude: number; longitude: number }) =>
+    Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+
+/** Coordinates in the text, in WGS84 decimal degrees, with the span they were read from. */
+export const parseCoordinates = (text: string): CoordinateMention[] => {
+    const found: CoordinateMention[] = [];
+    const add = (mention: CoordinateMention) => {
+        if (!isValid(mention) || found.some(other => mention.start < other.end && other.start < mention.end)) return;
+        found.push(mention);
+    };
+
+    for (const match of text.matchAll(DMS)) {
+        const [span, latBefore, latDeg, latMin, latSec, latAfter, lonBefore, lonDeg, lonMin, lonSec, lonAfter] = match;
+        const latHemisphere = latBefore || latAfter;
+        const lonHemisphere = lonBefore || lonAfter;
+        if (!latHemisphere || !lonHemisphere) continue;
+        const latitude = dmsToDegrees(latDeg, latMin, latSec) * (latHemisphere === 'S' ? -1 : 1);
+        const longitude = dmsToDegrees(lonDeg, lonMin, lonSec) * (lonHemisphere === 'W' ? -1 : 1);
+        const start = match.index!;
+        const written = span.trimEnd();
+        add({ latitude: round(latitude), longitude: round(longitude), format: latMin || lonMin ? 'dms' : 'decimal', text: written, start, end: start + written.length });
+    }
+    for (const match of text.matchAll(SIGNED_DECIMAL)) {
+        const start = match.index!;
+        add({ latitude: round(Number(match[1])), longitude: round(Number(match[2])), format: 'decimal', text: match[0], start, end: start + match[0].length });
+    }
+    for (const match of text.matchAll(UTM)) {
+        const [span, zone, band, easting, northing] = match;
+        if (Number(zone) < 1 || Number(zone) > 60) continue;
+        const start = match.index!;
+        // Latitude bands N to X are in the northern hemisphere.
+        add({ ...utmToLatLon(Number(zone), band >= 'N', Number(easting), Number(northing)), format: 'utm', text: span, start, end: start + span.length });
+    }
+    return found.sort((a, b) => a.start - b.start);
+};
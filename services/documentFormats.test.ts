@@ -0,0 +1,133 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect } from 'vitest';
+import { detectDocumentFormat, parseMarkdownDocument, parseXmlDocument } from './documentFormats';
+
+const JATS = `<?xml version="1.0"?>
+<article>
+  <front><journal-meta><journal-title>Journal of Paleontology</journal-title></journal-meta><article-meta>
+    <article-id pub-id-type="doi">10.1017/JPA.2015.12</article-id>
+    <title-group><article-title>Late Ordovician reefs</article-title></title-group>
+    <contrib-group><contrib contrib-type="author"><name><surname>Copper</surname><given-names>Paul</given-names></name></contrib></contrib-group>
+    <pub-date pub-type="epub"><day>3</day><month>2</month><year>2015</year></pub-date>
+    <abstract><p>We describe reef growth.</p></abstract>
+  </article-meta></front>
+  <body>
+    <sec><title>Introduction</title><p>Reefs are common.</p></sec>
+    <sec sec-type="materials|methods"><title>Samples</title>
+      <p>Samples were thin-sectioned.</p>
+      <fig id="f1"><label>Figure 1</label><caption><p>Map of the study area.</p></caption></fig>
+      <sec><title>Dating</title><p>Zircons were dated.</p>
+        <table-wrap><label>Table 1</label><caption><p>Ages.</p></caption>
+          <table><thead><tr><th>Sample</th><th>Age (Ma)</th></tr></thead>
+          <tbody><tr><td>A1</td><td>445.2</td></tr></tbody></table>
+        </table-wrap>
+      </sec>
+    </sec>
+  </body>
+  <back><ref-list><ref>Smith, J. Reefs. 2001.</ref><ref>Jones, K. Corals. 2005.</ref></ref-list></back>
+</article>`;
+
+const TEI = `<?xml version="1.0"?>
+<TEI xmlns="http://www.tei-c.org/ns/1.0">
+  <teiHeader><fileDesc><titleStmt><title>Hirnantian glaciation</title></titleStmt></fileDesc>
+    <sourceDesc><biblStruct><analytic><author><persName><forename>Peter</forename><surname>Brenchley</surname></persName></author></analytic>
+      <monogr><title level="j">Geology</title><imprint><date type="published" when="1994-05-01"/></imprint></monogr>
+      <idno type="DOI">10.1130/0091-7613</idno></biblStruct></sourceDesc>
+    <profileDesc><abstract><p>Ice sheets grew.</p></abstract></profileDesc></teiHeader>
+  <text><body>
+    <div><head n="1">Introduction</head><p>Glaciation is recorded.</p></div>
+    <div><head n="2">Methods</head><p>We measured isotopes.</p></div>
+    <div><head n="2.1">Isotopes</head><p>Carbon isotopes were measured.</p>
+      <figure type="table"><head>Table 1</head><figDesc>Results.</figDesc>
+        <table><row><cell>Bed</cell><cell>d13C</cell></row><row><cell>B1</cell><cell>4.5</cell></row></table>
+      </figure>
+    </div>
+  </body>
+  <back><div type="references"><listBibl><biblStruct><analytic><title>Reefs</title></analytic></biblStruct></listBibl></div></back>
+  </text>
+</TEI>`;
+
+describe('detectDocumentFormat', () => {
+  it('maps extensions to formats', () => {
+    expect(detectDocumentFormat('paper.PDF')).toBe('pdf');
+    expect(detectDocumentFormat('paper.nxml')).toBe('xml');
+    expect(detectDocumentFormat('notes.md')).toBe('markdown');
+    expect(detectDocumentFormat('notes.txt')).toBe('text');
+    expect(detectDocumentFormat('image.png')).toBeNull();
+  });
+});
+
+describe('parseXmlDocument', () => {
+  it('reads JATS sections, figures, tables and references', () => {
+    const { text, chunks } = parseXmlDocument(JATS);
+    expect(chunks[0]).toMatchObject({ sectionPath: ['Abstract'], content: 'Late Ordovician reefs\n\nWe describe reef growth.' });
+    expect(chunks.find(c => c.content.startsWith('Introduction'))?.sectionPath).toEqual(['Body', 'Introduction']);
+    expect(chunks.find(c => c.content.startsWith('Samples'))?.kind).toBe('methods');
+    expect(chunks.find(c => c.kind === 'caption')?.content).toBe('Figure 1 Map of the study area.');
+    const table = chunks.find(c => c.kind === 'table');
+    expect(table?.sectionPath).toEqual(['Body', 'Samples', 'Dating']);
+    expect(table?.table).toEqual({ caption: 'Table 1 Ages.', header: ['Sample', 'Age (Ma)'], rows: [['A1', '445.2']] });
+    const references = chunks.find(c => c.kind === 'references');
+    expect(references?.content).toBe('Smith, J. Reefs. 2001.\nJones, K. Corals. 2005.');
+    chunks.forEach(chunk => expect(text.slice(chunk.start, chunk.end)).toBe(chunk.content));
+  });
+
+  it('reads bibliographic metadata from JATS and TEI headers', () => {
+    expect(parseXmlDocument(JATS).metadata).toEqual({
+      title: 'Late Ordovician reefs', authors: ['Paul Copper'], year: 2015, journal: 'Journal of Paleontology', doi: '10.1017/jpa.2015.12',
+    });
+    expect(parseXmlDocument(TEI).metadata).toEqual({
+      title: 'Hirnantian glaciation', authors: ['Peter Brenchley'], year: 1994, journal: 'Geology', doi: '10.1130/0091-7613',
+    });
+  });
+
+  it('nests GROBID TEI sections by their numbers', () => {
+    const { chunks } = parseXmlDocument(TEI);
+    expect(chunks[0].content).toBe('Hirnantian glaciation\n\nIce sheets grew.');
+    const isotopes = chunks.find(c => c.content.startsWith('Isotopes'));
+    expect(isotopes).toMatchObject({ sectionPath: ['Methods', 'Isotopes'], kind: 'methods' });
+    expect(chunks.find(c => c.kind === 'table')?.table).toEqual({ caption: 'Table 1 Results.', header: ['Bed', 'd13C'], rows: [['B1', '4.5']] });
+    expect(chunks.find(c => c.kind === 'references')?.content).toBe('Reefs');
+  });
+
+  it('rejects other XML documents', () => {
+    expect(() => parseXmlDocument('<html><body/></html>')).toThrow(/Unsupported XML document <html>/);
+    expect(() => parseXmlDocument('<article>')).toThrow(/not well-formed/);
+  });
+});
+
+describe('parseMarkdownDocument', () => {
+  it('splits at headings and reads pipe tables', () => {
+    const markdown = [
+      'Reef notes',
+      '',
+      '# Introduction',
+      'Reefs are common.',
+      '## Methods',
+      'Samples were cut.',
+      '',
+      '| Sample | Age |',
+      '| --- | --- |',
+      '| A1 | 445 |',
+      '',
+      '```',
+      '# not a heading',
+      '```',
+      '# References',
+      'Smith 2001.',
+    ].join('\n');
+    const { chunks } = parseMarkdownDocument(markdown);
+    expect(chunks.map(c => [c.sectionPath.join(' > '), c.kind])).toEqual([
+      ['Front Matter', 'body'],
+      ['Introduction', 'body'],
+      ['Introduction > Methods', 'methods'],
+      ['Introduction > Methods', 'table'],
+      ['Introduction > Methods', 'methods'],
+      ['References', 'references'],
+    ]);
+    expect(chunks[3].table).toEqual({ header: ['Sample', 'Age'], rows: [['A1', '445']] });
+    expect(chunks[4].content).toContain('# not a heading');
+  });
+});
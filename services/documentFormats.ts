@@ -0,0 +1,289 @@
+import type { DocumentChunk, TableData } from '../types';
+import { renderTableLines } from './pdfLayout';
+import { normalizeDoi, PartialMetadata } from './bibliographicMetadata';
+
+// Parsers for documents that arrive already marked up: publisher JATS XML, GROBID TEI and
+// Markdown. They produce section chunks directly from the markup, so these files skip the
+// structuring stage. Plain text is read as is and structured like PDF text.
+
+export type DocumentFormat = 'pdf' | 'xml' | 'markdown' | 'text';
+
+export interface MarkedUpDocument {
+    text: string;
+    chunks: DocumentChunk[];
+    // Bibliographic metadata from the document's header, for XML.
+    metadata?: PartialMetadata;
+}
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+    pdf: 'pdf',
+    xml: 'xml',
+    nxml: 'xml',
+    md: 'markdown',
+    markdown: 'markdown',
+    txt: 'text',
+};
+
+export const ACCEPTED_EXTENSIONS = Object.keys(FORMATS_BY_EXTENSION).map(ext => `.${ext}`);
+
+export const detectDocumentFormat = (fileName: string): DocumentFormat | null =>
+    FORMATS_BY_EXTENSION[fileName.split('.').pop()?.toLowerCase() || ''] || null;
+
+const METHODS_TITLE = /^(materials and |analytical )?(methods?|methodology)$/i;
+const REFERENCES_TITLE = /^(references( cited)?|bibliography|literature cited)$/i;
+
+const kindForSection = (title: string, parentKind: DocumentChunk['kind']): DocumentChunk['kind'] => {
+    const bare = title.replace(/^[\d.]+\s*/, '').trim();
+    if (METHODS_TITLE.test(bare)) return 'methods';
+    if (REFERENCES_TITLE.test(bare)) return 'references';
+    return parentKind;
+};
+
+// Collects chunks and the document text they are cut from, separated by blank lines.
+const createChunkBuilder = () => {
+    let text = '';
+    const chunks: DocumentChunk[] = [];
+    return {
+        add: (sectionPath: string[], kind: DocumentChunk['kind'], content: string, table?: TableData) => {
+            const trimmed = content.trim();
+            if (!trimmed) return;
+            if (text) text += '\n\n';
+            const start = text.length;
+            text += trimmed;
+            chunks.push({ id: `s${chunks.length + 1}`, sectionPath, kind, content: trimmed, selected: true, start, end: text.length, ...(table ? { table } : {}) });
+        },
+        result: (metadata?: PartialMetadata): MarkedUpDocument => ({ text, chunks, ...(metadata ? { metadata } : {}) }),
+    };
+};
+
+type ChunkBuilder = ReturnType<typeof createChunkBuilder>;
+
+// --- XML ---
+
+const squash = (text: string | null | undefined): string => (text || '').replace(/\s+/g, ' ').trim();
+
+// Namespace-agnostic lookups: TEI puts every element in its namespace, JATS usually in none.
+const childrenNamed = (element: Element, ...names: string[]): Element[] =>
+    Array.from(element.children).filter(child => names.includes(child.localName));
+
+const firstNamed = (element: Element | Document, name: string): Element | undefined =>
+    element.getElementsByTagNameNS('*', name)[0];
+
+const allNamed = (element: Element, name: string): Element[] => Array.from(element.getElementsByTagNameNS('*', name));
+
+const tableText = (table: TableData): string =>
+    [...(table.caption ? [table.caption] : []), ...renderTableLines(table)].join('\n');
+
+// Header and rows of an XML table; the first row is the header when there is no explicit one.
+const readTable = (rows: Element[], cellNames: string[], headerRows: Element[] = []): Pick<TableData, 'header' | 'rows'> => {
+    const cells = (row: Element) => childrenNamed(row, ...cellNames).map(cell => squash(cell.textContent));
+    const body = rows.map(cells);
+    const header = headerRows.length > 0 ? headerRows.map(cells).reduce((a, b) => a.map((cell, i) => squash(`${cell} ${b[i] || ''}`))) : body.shift() || [];
+    return { header, rows: body };
+};
+
+const parseJatsTable = (wrap: Element): TableData => {
+    const caption = squash([firstNamed(wrap, 'label')?.textContent, firstNamed(wrap, 'caption')?.textContent].join(' '));
+    const thead = firstNamed(wrap, 'thead');
+    const headerRows = thead ? allNamed(thead, 'tr') : [];
+    const bodyRows = allNamed(wrap, 'tr').filter(row => !headerRows.includes(row));
+    return { ...(caption ? { caption } : {}), ...readTable(bodyRows, ['td', 'th'], headerRows) };
+};
+
+const addJatsSection = (builder: ChunkBuilder, sec: Element, parentPath: string[], parentKind: DocumentChunk['kind']) => {
+    const title = squash(childrenNamed(sec, 'title')[0]?.textContent) || 'Untitled';
+    const sectionPath = [...parentPath, title];
+    const secType = sec.getAttribute('sec-type') || '';
+    const kind = /methods|materials/i.test(secType) ? 'methods' : kindForSection(title, parentKind);
+    addJatsContent(builder, sec, sectionPath, kind, title);
+};
+
+const addJatsFloats = (builder: ChunkBuilder, floats: Element[], sectionPath: string[]) =>
+    floats.forEach(float => {
+        if (float.localName === 'fig') {
+            builder.add(sectionPath, 'caption', squash([firstNamed(float, 'label')?.textContent, firstNamed(float, 'caption')?.textContent].join(' ')));
+        } else {
+            const table = parseJatsTable(float);
+            builder.add(sectionPath, 'table', tableText(table), table);
+        }
+    });
+
+// A section's own paragraphs become one chunk, followed by its figures, tables and subsections.
+const addJatsContent = (builder: ChunkBuilder, element: Element, sectionPath: string[], kind: DocumentChunk['kind'], title?: string) => {
+    const paragraphs = childrenNamed(element, 'p', 'list', 'disp-quote', 'statement', 'def-list').map(p => squash(p.textContent));
+    builder.add(sectionPath, kind, [...(title ? [title] : []), ...paragraphs].join('\n\n'));
+    // Floats belong to the innermost section around them; those of the body sit outside any section.
+    const owner = element.localName === 'body' ? null : element;
+    const floats = [...allNamed(element, 'fig'), ...allNamed(element, 'table-wrap')].filter(float => float.closest('sec, app') === owner);
+    addJatsFloats(builder, floats, sectionPath);
+    childrenNamed(element, 'sec').forEach(sec => addJatsSection(builder, sec, sectionPath, kind));
+};
+
+const yearOf = (text: string | null | undefined): number | undefined => {
+    const year = (text || '').match(/\d{4}/);
+    return year ? Number(year[0]) : undefined;
+};
+
+const jatsMetadata = (front: Element | undefined, title: string): PartialMetadata => {
+    if (!front) return {};
+    const authors = allNamed(front, 'contrib').filter(contrib => (contrib.getAttribute('contrib-type') || 'author') === 'author').map(contrib => {
+        const name = firstNamed(contrib, 'name');
+        return name ? [firstNamed(name, 'given-names')?.textContent, firstNamed(name, 'surname')?.textContent].map(squash).filter(Boolean).join(' ') : squash(firstNamed(contrib, 'collab')?.textContent);
+    }).filter(Boolean);
+    const doi = allNamed(front, 'article-id').find(id => id.getAttribute('pub-id-type') === 'doi')?.textContent;
+    const journal = squash(firstNamed(front, 'journal-title')?.textContent);
+    const pubDate = firstNamed(front, 'pub-date');
+    const year = yearOf(pubDate && firstNamed(pubDate, 'year')?.textContent);
+    return { ...(title ? { title } : {}), authors, ...(year ? { year } : {}), ...(journal ? { journal } : {}), ...(doi ? { doi: normalizeDoi(doi) } : {}) };
+};
+
+const parseJats = (doc: Document): MarkedUpDocument => {
+    const builder = createChunkBuilder();
+    const front = firstNamed(doc, 'front');
+    const title = squash(front && firstNamed(front, 'article-title')?.textContent);
+    const abstract = front && firstNamed(front, 'abstract');
+    builder.add(abstract ? ['Abstract'] : ['Front Matter'], 'body', [title, ...(abstract ? [squash(abstract.textContent)] : [])].join('\n\n'));
+
+    const body = firstNamed(doc, 'body');
+    if (body) addJatsContent(builder, body, ['Body'], 'body');
+    // Publishers often collect figures and tables in a floats group after the body.
+    const floatsGroup = firstNamed(doc, 'floats-group');
+    if (floatsGroup) addJatsFloats(builder, [...allNamed(floatsGroup, 'fig'), ...allNamed(floatsGroup, 'table-wrap')], ['Figures and Tables']);
+
+    const back = firstNamed(doc, 'back');
+    if (back) {
+        childrenNamed(back, 'ack').forEach(ack => builder.add(['Acknowledgments'], 'body', squash(ack.textContent)));
+        allNamed(back, 'app').forEach(app => addJatsSection(builder, app, ['Appendix'], 'body'));
+        allNamed(back, 'ref-list').forEach(refList =>
+            builder.add(['References'], 'references', allNamed(refList, 'ref').map(ref => squash(ref.textContent)).join('\n')));
+    }
+    return builder.result(jatsMetadata(front, title));
+};
+
+const parseTeiFigure = (builder: ChunkBuilder, figure: Element, sectionPath: string[]) => {
+    const caption = squash([firstNamed(figure, 'head')?.textContent, firstNamed(figure, 'figDesc')?.textContent].join(' '));
+    const teiTable = firstNamed(figure, 'table');
+    if (figure.getAttribute('type') === 'table' && teiTable) {
+        const table: TableData = { ...(caption ? { caption } : {}), ...readTable(childrenNamed(teiTable, 'row'), ['cell']) };
+        builder.add(sectionPath, 'table', tableText(table), table);
+    } else {
+        builder.add(sectionPath, 'caption', caption);
+    }
+};
+
+// GROBID describes the paper itself in the header's source description.
+const teiMetadata = (header: Element | undefined, title: string): PartialMetadata => {
+    const bibl = header && firstNamed(header, 'sourceDesc');
+    if (!bibl) return title ? { title } : {};
+    const analytic = firstNamed(bibl, 'analytic');
+    const authors = (analytic ? allNamed(analytic, 'persName') : []).map(person =>
+        [...allNamed(person, 'forename'), ...allNamed(person, 'surname')].map(part => squash(part.textContent)).join(' ')).filter(Boolean);
+    const journal = squash(allNamed(bibl, 'title').find(t => t.getAttribute('level') === 'j')?.textContent);
+    const date = firstNamed(bibl, 'date');
+    const year = yearOf(date?.getAttribute('when') || date?.textContent);
+    const doi = allNamed(bibl, 'idno').find(id => (id.getAttribute('type') || '').toUpperCase() === 'DOI')?.textContent;
+    return { ...(title ? { title } : {}), authors, ...(year ? { year } : {}), ...(journal ? { journal } : {}), ...(doi ? { doi: normalizeDoi(doi) } : {}) };
+};
+
+const parseTei = (doc: Document): MarkedUpDocument => {
+    const builder = createChunkBuilder();
+    const header = firstNamed(doc, 'teiHeader');
+    const title = squash(header && firstNamed(header, 'title')?.textContent);
+    const abstract = header && firstNamed(header, 'abstract');
+    builder.add(abstract ? ['Abstract'] : ['Front Matter'], 'body', [title, ...(abstract ? [squash(abstract.textContent)] : [])].join('\n\n'));
+
+    // GROBID writes sections as a flat list of divs; the head's number ("2.1") gives the nesting.
+    let sectionPath: string[] = [];
+    let sectionKind: DocumentChunk['kind'] = 'body';
+    const body = firstNamed(doc, 'body');
+    (body ? childrenNamed(body, 'div') : []).forEach(div => {
+        const head = childrenNamed(div, 'head')[0];
+        const headTitle = squash(head?.textContent);
+        if (headTitle) {
+            const level = (head!.getAttribute('n') || '').replace(/\.$/, '').split('.').filter(Boolean).length || 1;
+            sectionPath = [...sectionPath.slice(0, level - 1), headTitle];
+            sectionKind = level === 1 ? kindForSection(headTitle, 'body') : kindForSection(headTitle, sectionKind);
+        }
+        const paragraphs = childrenNamed(div, 'p', 'list', 'formula').map(p => squash(p.textContent));
+        builder.add(sectionPath.length > 0 ? sectionPath : ['Body'], sectionKind, [...(headTitle ? [headTitle] : []), ...paragraphs].join('\n\n'));
+        allNamed(div, 'figure').forEach(figure => parseTeiFigure(builder, figure, sectionPath.length > 0 ? sectionPath : ['Body']));
+    });
+    // GROBID also collects floating figures and tables at the end of the body.
+    (body ? childrenNamed(body, 'figure') : []).forEach(figure => parseTeiFigure(builder, figure, ['Figures and Tables']));
+
+    const back = firstNamed(doc, 'back');
+    if (back) {
+        childrenNamed(back, 'div').forEach(div => {
+            const type = div.getAttribute('type');
+            if (type === 'references') {
+                builder.add(['References'], 'references', allNamed(div, 'biblStruct').map(bibl => squash(bibl.textContent)).join('\n'));
+            } else {
+                const headTitle = squash(firstNamed(div, 'head')?.textContent);
+                const name = type === 'acknowledgement' ? 'Acknowledgments' : type === 'annex' ? 'Appendix' : headTitle || 'Back Matter';
+                builder.add(headTitle && headTitle !== name ? [name, headTitle] : [name], 'body', squash(div.textContent));
+            }
+        });
+    }
+    return builder.result(teiMetadata(header, title));
+};
+
+export const parseXmlDocument = (xml: string): MarkedUpDocument => {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('The file is not well-formed XML.');
+    const root = doc.documentElement.localName;
+    if (root === 'article') return parseJats(doc);
+    if (root === 'TEI' || root === 'teiCorpus') return parseTei(doc);
+    throw new Error(`Unsupported XML document <${root}>: expected JATS (<article>) or TEI (<TEI>).`);
+};
+
+// --- Markdown ---
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const MARKDOWN_TABLE_SEPARATOR = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+const markdownCells = (line: string): string[] =>
+    line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+/**
+ * Splits Markdown at its headings ("#" to "######"); each heading's level sets the section
+ * path. Pipe tables become table chunks. Text before the first heading is the front matter.
+ */
+export const parseMarkdownDocument = (markdown: string): MarkedUpDocument => {
+    const builder = createChunkBuilder();
+    const lines = markdown.split(/\r?\n/);
+    let sectionPath = ['Front Matter'];
+    let sectionKind: DocumentChunk['kind'] = 'body';
+    let buffer: string[] = [];
+    let inFence = false;
+    const flush = () => {
+        builder.add(sectionPath, sectionKind, buffer.join('\n'));
+        buffer = [];
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+        const heading = inFence ? null : line.match(MARKDOWN_HEADING);
+        if (heading) {
+            flush();
+            const level = heading[1].length;
+            const title = heading[2];
+            sectionPath = sectionPath[0] === 'Front Matter' ? [title] : [...sectionPath.slice(0, level - 1), title];
+            sectionKind = kindForSection(title, sectionPath.length === 1 ? 'body' : sectionKind);
+            buffer.push(line);
+            continue;
+        }
+        if (!inFence && line.trim().startsWith('|') && MARKDOWN_TABLE_SEPARATOR.test((lines[i + 1] || '').trim())) {
+            flush();
+            let end = i + 2;
+            while (end < lines.length && lines[end].trim().startsWith('|')) end++;
+            const table: TableData = { header: markdownCells(line), rows: lines.slice(i + 2, end).map(markdownCells) };
+            builder.add(sectionPath, 'table', lines.slice(i, end).join('\n'), table);
+            i = end - 1;
+            continue;
+        }
+        buffer.push(line);
+    }
+    flush();
+    return builder.result();
+};
@@ -0,0 +1,230 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { LlmConfig, PaperCore, ExtractedEntity, DocumentChunk } from '../types';
+import type { LlmProviderAdapter, StructuredRequest } from './providers/common';
+import { createEmptyFixture, createRecordReplayProvider, LlmFixture } from './providers/mockProvider';
+import { registerProvider } from './llmProviderService';
+import { extractEntities, extractEntitiesFromChunks, extractRelationships, extractRelationshipsFromChunks, generateFitReport, generateSchemaCapabilityProfile, mergeTriples } from './extractionService';
+import { DEFAULT_SCHEMA } from '../constants';
+import { DEFAULT_PROMPTS } from '../prompts';
+
+const template = (key: keyof typeof DEFAULT_PROMPTS) => DEFAULT_PROMPTS[key].versions[0].template;
+const entityPrompts = { schema: template('SCHEMA_ENTITY_EXTRACTION'), automated: template('AUTOMATED_ENTITY_EXTRACTION') };
+const relationshipPrompts = { schema: template('SCHEMA_RELATIONSHIP_EXTRACTION'), automated: template('AUTOMATED_RELATIONSHIP_EXTRACTION') };
+
+const baseConfig: LlmConfig = { apiKey: '', provider: 'mock', model: 'test-model', temperature: 0, mockUpstream: 'gemini' };
+const recordConfig: LlmConfig = { ...baseConfig, mockMode: 'record' };
+const replayConfig: LlmConfig = { ...baseConfig, mockMode: 'replay' };
+
+const DOCUMENT = 'The Ruby Ranch Member of the Cedar Mountain Formation is Aptian–Albian in age.';
+
+const ENTITIES = [
+  { name: 'Ruby Ranch Member', type: 'Member', confidence: 0.95, justification: 'Named member.' },
+  { name: 'Cedar Mountain Formation', type: 'Formation', confidence: 0.97, justification: 'Named formation.' },
+];
+
+const TRIPLES = [
+  { subject: 'Ruby Ranch Member', predicate: 'partOf', object: 'Cedar Mountain Formation', evidenceText: 'The Ruby Ranch Member of the Cedar Mountain Formation', confidence: 0.9, justification: 'Explicit.' },
+];
+
+// Answers like a model would, based on the shape of the requested schema.
+const scriptedResponse = (request: StructuredRequest): string => {
+  const properties = request.responseSchema.properties || {};
+  if (request.responseSchema.items) return JSON.stringify(ENTITIES);
+  if ('new_types' in properties) return JSON.stringify({ entities: ENTITIES, new_types: [] });
+  if ('new_predicates' in properties) {
+    return JSON.stringify({
+      triples: TRIPLES,
+      new_predicates: [{ name: 'hasMaximumDepositionalAge', description: 'Youngest detrital zircon age.', domain: ['Formation'], range: ['AbsoluteAgeValue'], example: { subject: 'Cedar Mountain Formation', object: '112 Ma', evidenceText: 'MDA of 112 Ma' } }],
+    });
+  }
+  return JSON.stringify({ triples: TRIPLES });
+};
+
+let fixture: LlmFixture;
+let upstream: LlmProviderAdapter;
+
+beforeEach(() => {
+  fixture = createEmptyFixture();
+  upstream = { generateStructured: vi.fn(async (_config, request) => ({ text: scriptedResponse(request) })), normalizeError: (e) => e };
+  registerProvider('mock', createRecordReplayProvider({ getFixture: () => fixture, resolveUpstream: () => upstream }));
+});
+
+const signal = () => new AbortController().signal;
+
+describe('extractEntities', () => {
+
+  it('should return schema-mode entities and replay them offline', async () => {
+    const recorded = await extractEntities(DOCUMENT, DEFAULT_SCHEMA, 'schema_mode', null, recordConfig, entityPrompts, signal());
+    const replayed = await extractEntities(DOCUMENT, DEFAULT_SCHEMA, 'schema_mode', null, replayConfig, entityPrompts, signal());
+
+    expect(recorded).toEqual({ entities: ENTITIES, proposals: [] });
+    expect(replayed).toEqual(recorded);
+    expect(upstream.generateStructured).toHaveBeenCalledTimes(1);
+  });
+
+  it('should include stratigraphy candidate hints in the schema-mode prompt', async () => {
+    await extractEntities(DOCUMENT, DEFAULT_SCHEMA, 'schema_mode', null, recordConfig, entityPrompts, signal());
+    const [entry] = Object.values(fixture.entries);
+    expect(entry.request.prompt).toContain('"type": "Formation"');
+  });
+
+  it('should hint parsed ages with their value in years', async () => {
+    await extractEntities('The Ruby Ranch Member is dated at 112.5 ± 0.4 Ma.', DEFAULT_SCHEMA, 'schema_mode', null, recordConfig, entityPrompts, signal());
+    const [entry] = Object.values(fixture.entries);
+    expect(entry.request.prompt).toContain('"type": "AbsoluteAgeValue",\n    "years": 112500000,\n    "minusYears": 400000');
+  });
+
+  it('should not propose new types when the automated run finds none', async () => {
+    const result = await extractEntities(DOCUMENT, DEFAULT_SCHEMA, 'automated_mode', null, recordConfig, entityPrompts, signal());
+    expect(result.entities).toEqual(ENTITIES);
+    expect(result.proposals).toEqual([]);
+  });
+
+  it('should fail a replay for a document that was never recorded', async () => {
+    await extractEntities(DOCUMENT, DEFAULT_SCHEMA, 'schema_mode', null, recordConfig, entityPrompts, signal());
+    await expect(extractEntities('A different paper.', DEFAULT_SCHEMA, 'schema_mode', null, replayConfig, entityPrompts, signal()))
+      .rejects.toThrow('No recorded response');
+  });
+
+});
+
+describe('extractRelationships', () => {
+
+  const entities: ExtractedEntity[] = ENTITIES.map(e => ({ ...e, selected: true }));
+
+  it('should return schema-mode triples without proposals', async () => {
+    const result = await extractRelationships(DOCUMENT, DEFAULT_SCHEMA, entities, 'schema_mode', null, recordConfig, relationshipPrompts, signal());
+    expect(result).toEqual({ triples: TRIPLES, proposals: [] });
+  });
+
+  it('should turn new predicates into a schema proposal in automated mode', async () => {
+    const result = await extractRelationships(DOCUMENT, DEFAULT_SCHEMA, entities, 'automated_mode', null, recordConfig, relationshipPrompts, signal());
+    expect(result.triples).toEqual(TRIPLES);
+    expect(result.proposals).toHaveLength(1);
+    expect(result.proposals[0]).toMatchObject({
+      baseVersion: DEFAULT_SCHEMA.meta.version,
+      new_predicates: [{ name: 'hasMaximumDepositionalAge' }],
+      evidence: { quotes: ['MDA of 112 Ma'] },
+    });
+  });
+
+  it('should list the typed entities in the prompt', async () => {
+    await extractRelationships(DOCUMENT, DEFAULT_SCHEMA, entities, 'schema_mode', null, recordConfig, relationshipPrompts, signal());
+    const [entry] = Object.values(fixture.entries);
+    expect(entry.request.prompt).toContain('- "Ruby Ranch Member" (type: Member)');
+  });
+
+});
+
+describe('chunk-level extraction', () => {
+
+  const chunks: DocumentChunk[] = [
+    { id: 'c1', sectionPath: ['Geologic Setting'], kind: 'body', content: DOCUMENT, selected: true },
+    { id: 'c2', sectionPath: ['Results', 'Geochronology'], kind: 'body', content: `Detrital zircons confirm it. ${DOCUMENT}`, selected: true },
+  ];
+  const entities: ExtractedEntity[] = ENTITIES.map(e => ({ ...e, selected: true }));
+
+  it('should send one request per chunk, labelled with its section and kind', async () => {
+    await extractEntitiesFromChunks(chunks, DEFAULT_SCHEMA, 'schema_mode', null, recordConfig, entityPrompts, signal());
+    const prompts = Object.values(fixture.entries).map(entry => entry.request.prompt);
+    expect(prompts).toHaveLength(2);
+    expect(prompts.some(prompt => prompt.includes('[Section: Results > Geochronology | Kind: body]'))).toBe(true);
+  });
+
+  it('should deduplicate entities found in several chunks', async () => {
+    const result = await extractEntitiesFromChunks(chunks, DEFAULT_SCHEMA, 'schema_mode', null, recordConfig, entityPrompts, signal());
+    expect(result.entities).toEqual(ENTITIES);
+  });
+
+  it('should merge triples across chunks and keep the provenance of each', async () => {
+    const result = await extractRelationshipsFromChunks(chunks, DEFAULT_SCHEMA, entities, 'schema_mode', null, recordConfig, relationshipPrompts, signal());
+    expect(result.triples).toHaveLength(1);
+    expect(result.triples[0].provenance).toEqual([
+      { chunkId: 'c1', sectionPath: ['Geologic Setting'], kind: 'body' },
+      { chunkId: 'c2', sectionPath: ['Results', 'Geochronology'], kind: 'body' },
+    ]);
+  });
+
+  it('should send table chunks as Markdown to the table prompt', async () => {
+    const tableChunk: DocumentChunk = {
+      id: 't1', sectionPath: ['Results'], kind: 'table', content: 'flattened', selected: true,
+      table: { caption: 'Table 1. Members.', header: ['Unit', 'Age'], rows: [['Ruby Ranch Member', 'Aptian–Albian']] },
+    };
+    await extractRelationshipsFromChunks([tableChunk], DEFAULT_SCHEMA, entities, 'automated_mode', null, recordConfig, { ...relationshipPrompts, table: template('TABLE_RELATIONSHIP_EXTRACTION') }, signal());
+    const prompt = Object.values(fixture.entries)[0].request.prompt;
+    expect(prompt).toContain('Each row is one record');
+    expect(prompt).toContain('Table 1. Members.\n| Unit | Age |\n| --- | --- |\n| Ruby Ranch Member | Aptian–Albian |');
+  });
+
+  it('should attach normalised ages to age objects only', async () => {
+    const ageTriples = [
+      { ...TRIPLES[0], predicate: 'hasAge', object: '112.5 ± 0.4 Ma' },
+      { ...TRIPLES[0], predicate: 'overlies', object: 'the 98 Ma ash bed' },
+    ];
+    upstream.generateStructured = vi.fn(async () => ({ text: JSON.stringify({ triples: ageTriples }) }));
+
+    const result = await extractRelationshipsFromChunks([chunks[0]], DEFAULT_SCHEMA, entities, 'schema_mode', null, recordConfig, relationshipPrompts, signal());
+
+    const byPredicate = Object.fromEntries(result.triples.map(triple => [triple.predicate, triple]));
+    expect(byPredicate.hasAge.objectAge).toMatchObject({ years: 112.5e6, minusYears: 0.4e6, plusYears: 0.4e6 });
+    expect(byPredicate.overlies.objectAge).toBeUndefined();
+  });
+
+  it('should combine the proposals of all chunks into one', async () => {
+    const result = await extractRelationshipsFromChunks(chunks, DEFAULT_SCHEMA, entities, 'automated_mode', null, recordConfig, relationshipPrompts, signal());
+    expect(result.proposals).toHaveLength(1);
+    expect(result.proposals[0].new_predicates.map(p => p.name)).toEqual(['hasMaximumDepositionalAge']);
+  });
+
+});
+
+describe('mergeTriples', () => {
+
+  it('should keep the most confident of equivalent triples, ignoring case and spacing', () => {
+    const merged = mergeTriples([
+      { ...TRIPLES[0], confidence: 0.6, provenance: [{ chunkId: 'a', sectionPath: [], kind: 'body' }] },
+      { ...TRIPLES[0], subject: 'ruby  ranch member', confidence: 0.8, provenance: [{ chunkId: 'b', sectionPath: [], kind: 'table' }] },
+    ]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].confidence).toBe(0.8);
+    expect(merged[0].provenance!.map(p => p.chunkId)).toEqual(['a', 'b']);
+  });
+
+});
+
+describe('generateFitReport', () => {
+
+  const profile = generateSchemaCapabilityProfile(DEFAULT_SCHEMA);
+  const core = (overrides: Partial<PaperCore>): PaperCore => ({
+    questions: [], data_used: [], study_area: [], time_interval: [], methods: [], key_results: [], evidence_spans: [], ...overrides,
+  });
+
+  it('should choose schema mode when scope and time terms map onto the schema', () => {
+    const report = generateFitReport(core({
+      study_area: ['Cedar Mountain Formation', 'Ruby Ranch Member', 'Mussentuchit Member', 'Yellow Cat Member', 'Poison Strip Member', 'Burro Canyon Formation', 'Dakota Formation', 'Morrison Formation'],
+      time_interval: ['Aptian', 'Albian'],
+    }), profile);
+
+    expect(report.decision).toBe('schema_mode');
+    expect(report.covered).toContainEqual({ item: 'Aptian', maps_to: 'Stage' });
+  });
+
+  it('should map time terms through the ICS chart by rank', () => {
+    const report = generateFitReport(core({ time_interval: ['Late Cretaceous', 'early Albian', 'Mesozoic'] }), profile);
+    expect(report.covered).toEqual(expect.arrayContaining([
+      { item: 'Late Cretaceous', maps_to: 'Series' },
+      { item: 'early Albian', maps_to: 'Stage' },
+      { item: 'Mesozoic', maps_to: 'ChronostratigraphicUnit' },
+    ]));
+  });
+
+  it('should fall back to automated mode when critical scope is missing', () => {
+    const report = generateFitReport(core({ study_area: ['Western Interior'], time_interval: ['mid-Cretaceous'] }), profile);
+    expect(report.decision).toBe('automated_mode');
+    expect(report.rationale).toContain('Critical scope elements are missing.');
+  });
+
+});
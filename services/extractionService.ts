@@ -1,46 +1,16 @@
 
-import { GoogleGenAI, Type, GenerateContentParameters, GenerateContentResponse } from "@google/genai";
-import type { Triple, Schema, ExtractedEntity, PaperCore, SchemaCapabilityProfile, FitReport, Predicate, SchemaProposal, LlmConfig } from '../types';
-import { preprocessText, Candidate } from './stratigraphyPreprocess';
+import { Type } from "@google/genai";
+import type { AbsoluteAgeValue, Triple, Schema, ExtractedEntity, PaperCore, SchemaCapabilityProfile, FitReport, Predicate, SchemaProposal, LlmConfig, DocumentChunk, ChunkProvenance, TableData } from '../types';
+import { preprocessText, Candidate, TaxonInfo } from './stratigraphyPreprocess';
+import { findChronoMentions } from './icsTimescale';
+import { parseAbsoluteAges } from './absoluteAges';
+import { normalizeMeasurement } from './quantities';
+import { findTaxonNames } from './taxonNames';
+import { generateValidatedJson, LlmCallHooks } from './llmProviderService';
+import { splitIntoWindows } from './textWindows';
 
 type ExtractionMode = 'schema_mode' | 'automated_mode';
 
-const getGeminiClient = (apiKey: string) => {
-    if (!apiKey) {
-        throw new Error("Gemini API key is not provided.");
-    }
-    return new GoogleGenAI({ apiKey });
-}
-
-// Helper to make generateContent abortable, as the SDK doesn't support it natively.
-const generateContentWithAbort = async (
-    ai: GoogleGenAI,
-    params: GenerateContentParameters,
-    signal: AbortSignal
-): Promise<GenerateContentResponse> => {
-    if (signal.aborted) {
-        throw new DOMException('Aborted', 'AbortError');
-    }
-    // Race the API call with a promise that rejects on abort.
-    return new Promise(async (resolve, reject) => {
-        const onAbort = () => {
-            signal.removeEventListener('abort', onAbort);
-            reject(new DOMException('Aborted', 'AbortError'));
-        };
-        signal.addEventListener('abort', onAbort, { once: true });
-
-        try {
-            const result = await ai.models.generateContent(params);
-            signal.removeEventListener('abort', onAbort);
-            resolve(result);
-        } catch (error) {
-            signal.removeEventListener('abort', onAbort);
-            reject(error);
-        }
-    });
-};
-
-
 // --- Utility Functions ---
 
 const fillTemplate = (template: string, data: Record<string, any>): string => {
@@ -99,35 +69,28 @@ export const extractPaperCore = async (
     abstractText: string,
     llmConfig: LlmConfig,
     promptTemplate: string,
-    abortSignal: AbortSignal
+    abortSignal: AbortSignal,
+    hooks?: LlmCallHooks
 ): Promise<PaperCore> => {
-    if (llmConfig.provider !== 'gemini') {
-        throw new Error(`Provider "${llmConfig.provider}" is not yet supported.`);
-    }
-    const ai = getGeminiClient(llmConfig.apiKey);
     const prompt = fillTemplate(promptTemplate, { abstractText });
 
     try {
-        const response = await generateContentWithAbort(ai, {
-            model: llmConfig.model, contents: prompt,
-            config: {
-                temperature: llmConfig.temperature, responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT, properties: {
-                        questions: { type: Type.ARRAY, items: { type: Type.STRING } },
-                        data_used: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, role: { type: Type.STRING }, type_hint: { type: Type.STRING } }, required: ["name", "role", "type_hint"] } },
-                        study_area: { type: Type.ARRAY, items: { type: Type.STRING } }, time_interval: { type: Type.ARRAY, items: { type: Type.STRING } }, methods: { type: Type.ARRAY, items: { type: Type.STRING } }, key_results: { type: Type.ARRAY, items: { type: Type.STRING } },
-                        evidence_spans: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { quote: { type: Type.STRING }, page: { type: Type.NUMBER, nullable: true }, offset: { type: Type.ARRAY, items: { type: Type.NUMBER }, nullable: true } }, required: ["quote", "page", "offset"] } }
-                    },
-                    required: ["questions", "data_used", "study_area", "time_interval", "methods", "key_results", "evidence_spans"]
-                }
+        return await generateValidatedJson<PaperCore>(llmConfig, {
+            prompt,
+            responseSchema: {
+                type: Type.OBJECT, properties: {
+                    questions: { type: Type.ARRAY, items: { type: Type.STRING } },
+                    data_used: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, role: { type: Type.STRING }, type_hint: { type: Type.STRING } }, required: ["name", "role", "type_hint"] } },
+                    study_area: { type: Type.ARRAY, items: { type: Type.STRING } }, time_interval: { type: Type.ARRAY, items: { type: Type.STRING } }, methods: { type: Type.ARRAY, items: { type: Type.STRING } }, key_results: { type: Type.ARRAY, items: { type: Type.STRING } },
+                    evidence_spans: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { quote: { type: Type.STRING }, page: { type: Type.NUMBER, nullable: true }, offset: { type: Type.ARRAY, items: { type: Type.NUMBER }, nullable: true } }, required: ["quote", "page", "offset"] } }
+                },
+                required: ["questions", "data_used", "study_area", "time_interval", "methods", "key_results", "evidence_spans"]
             }
-        }, abortSignal);
-        return JSON.parse(response.text) as PaperCore;
+        }, abortSignal, hooks);
     } catch (e) {
-        if (e instanceof Error && e.name === 'AbortError') throw e;
-        if (e instanceof Error) { if (e.message.includes('429')) { throw new Error("429 - Rate limit exceeded."); } throw e; } 
-        else { throw new Error("An unknown error occurred during PaperCore extraction."); }
+        // Provider errors arrive normalised (LlmRequestError with its status and Retry-After).
+        if (e instanceof Error) throw e;
+        throw new Error("An unknown error occurred during PaperCore extraction.");
     }
 };
 
@@ -142,16 +105,26 @@ export const generateSchemaCapabilityProfile = (schema: Schema): SchemaCapabilit
     };
 };
 
+const TIME_TYPES = ['Stage', 'Series', 'System', 'ChronostratigraphicUnit', 'GeologicTimeUnitNamed'];
+
+// Time terms map through the ICS chart to the most specific time type the schema has for their rank.
+const mapTimeTerm = (item: string, schema: SchemaCapabilityProfile): string | undefined => {
+  const [mention] = findChronoMentions(item, true);
+  if (!mention) return undefined;
+  const rank = mention.unit.rank === 'Subsystem' ? 'System' : mention.unit.rank;
+  return [rank, 'ChronostratigraphicUnit', 'GeologicTimeUnitNamed'].find(t => schema.entity_types.includes(t));
+};
+
 const mapToSchema = (item: string, schema: SchemaCapabilityProfile): string | undefined => {
   const norm = item.toLowerCase();
   const entityMap = new Map([
     ['formation','Formation'], ['member','Member'], ['group','Group'],
-    ['locality','Locality'], ['basin','Basin'], ['aptian','ChronostratigraphicUnit'], ['albian','ChronostratigraphicUnit']
+    ['locality','Locality'], ['basin','Basin']
   ]);
   for (const [key, val] of entityMap) {
       if (norm.includes(key)) { if (schema.entity_types.includes(val)) return val; }
   }
-  return schema.entity_types.find(t => norm.includes(t.toLowerCase()));
+  return mapTimeTerm(item, schema) ?? schema.entity_types.find(t => norm.includes(t.toLowerCase()));
 };
 
 export const generateFitReport = (core: PaperCore, schema: SchemaCapabilityProfile): FitReport => {
@@ -166,20 +139,50 @@ export const generateFitReport = (core: PaperCore, schema: SchemaCapabilityProfi
   }
 
   const coverage = items.length > 0 ? covered.length / items.length : 1;
-  const hasScope = covered.some(x => ['Formation', 'Member', 'Locality'].includes(x.maps_to!)) && (core.time_interval.length === 0 || covered.some(x => x.maps_to === 'ChronostratigraphicUnit'));
+  const hasScope = covered.some(x => ['Formation', 'Member', 'Locality'].includes(x.maps_to!)) && (core.time_interval.length === 0 || covered.some(x => TIME_TYPES.includes(x.maps_to!)));
   const decision = (coverage >= 0.70 && hasScope) ? 'schema_mode' : 'automated_mode';
   return { covered, uncovered, coverage_score: Number(coverage.toFixed(2)), decision, rationale: `Coverage is ${Math.round(coverage*100)}%. ${hasScope ? 'Critical scope elements are covered.' : 'Critical scope elements are missing.'}` };
 };
 
+const taxonHint = ({ forms, ...parts }: TaxonInfo) => ({ ...parts, ...(forms.length > 0 ? { written_as: forms } : {}) });
+
+// Parsed ages are hinted with their normalised value, so the model keeps the uncertainty with the age.
+const ageHint = ({ text, start, end, ...value }: AbsoluteAgeValue) => ({ name: text, type: 'AbsoluteAgeValue', ...value });
+
+// The first age in a name, for entities and triple objects that are ages ("ca. 98 Ma").
+const ageOf = (name: string): AbsoluteAgeValue | undefined => parseAbsoluteAges(name)[0];
+
+// Predicates whose object is an age (hasAge, or proposed ones such as hasMaximumDepositionalAge).
+// Other objects only count as ages when they are a range ("15–12 ka"), not when they merely
+// mention one ("the 98 Ma ash bed").
+const AGE_PREDICATE = /Age$/;
+const objectAgeOf = (triple: Pick<Triple, 'predicate' | 'object'>): AbsoluteAgeValue | undefined => {
+    const age = ageOf(triple.object);
+    return age && (AGE_PREDICATE.test(triple.predicate) || age.range) ? age : undefined;
+};
+
+// Entities named like a place, section or well candidate take the coordinates given beside it.
+const withCoordinates = <T extends { name: string }>(entities: T[], candidates: Candidate[]): T[] => entities.map(entity => {
+    const site = candidates.find(c => c.coordinates && normalizeName(c.name) === normalizeName(entity.name));
+    return site ? { ...entity, coordinates: site.coordinates } : entity;
+});
+
+// Abbreviated taxon names the model copied from the text ("T. rex") are written out in full, so
+// entities and the subjects and objects of triples such as belongsToTaxon name the same taxon.
+const withTaxonNames = <T extends { name: string } | { subject: string; object: string }>(items: T[], candidates: Candidate[]): T[] => {
+    const fullNames = new Map(candidates.flatMap(c => (c.taxon?.forms || []).map(form => [normalizeName(form), c.name] as const)));
+    if (fullNames.size === 0) return items;
+    const fullName = (name: string) => fullNames.get(normalizeName(name)) ?? name;
+    return items.map(item => 'name' in item
+        ? { ...item, name: fullName(item.name) }
+        : { ...item, subject: fullName(item.subject), object: fullName(item.object) });
+};
+
 export const extractEntities = async (
-    documentText: string, schema: Schema, extractionMode: ExtractionMode, paperCore: PaperCore | null, llmConfig: LlmConfig, promptTemplates: { schema: string, automated: string }, abortSignal: AbortSignal
+    documentText: string, schema: Schema, extractionMode: ExtractionMode, paperCore: PaperCore | null, llmConfig: LlmConfig, promptTemplates: { schema: string, automated: string }, abortSignal: AbortSignal, hooks?: LlmCallHooks, knownGenera: string[] = []
 ): Promise<{ entities: Omit<ExtractedEntity, 'selected'>[], proposals: SchemaProposal[] }> => {
-    if (llmConfig.provider !== 'gemini') {
-        throw new Error(`Provider "${llmConfig.provider}" is not yet supported.`);
-    }
     const guidance = summarizePaperCoreForGuidance(paperCore);
-    const { cleanText, candidates } = preprocessText(documentText);
-    const ai = getGeminiClient(llmConfig.apiKey);
+    const { cleanText, candidates, ages } = preprocessText(documentText, knownGenera);
 
     try {
         if (extractionMode === 'automated_mode') {
@@ -188,70 +191,64 @@ export const extractEntities = async (
                 schema_concepts: getAllConcepts(schema).join(', '),
                 text: cleanText,
             });
-            const response = await generateContentWithAbort(ai, {
-                model: llmConfig.model, contents: prompt,
-                config: {
-                    temperature: llmConfig.temperature, responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.OBJECT, properties: {
-                            entities: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, type: { type: Type.STRING }, confidence: { type: Type.NUMBER }, justification: { type: Type.STRING } }, required: ["name", "type", "confidence", "justification"] } },
-                            new_types: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, definition: { type: Type.STRING }, closest_parent: { type: Type.STRING, nullable: true }, examples: { type: Type.ARRAY, items: { type: Type.STRING } } }, required: ["name", "definition", "closest_parent", "examples"] } }
-                        }, required: ["entities", "new_types"]
-                    }
+            const result = await generateValidatedJson<{ entities: Omit<ExtractedEntity, 'selected'>[], new_types: SchemaProposal['new_types'] }>(llmConfig, {
+                prompt,
+                responseSchema: {
+                    type: Type.OBJECT, properties: {
+                        entities: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, type: { type: Type.STRING }, confidence: { type: Type.NUMBER }, justification: { type: Type.STRING } }, required: ["name", "type", "confidence", "justification"] } },
+                        new_types: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, definition: { type: Type.STRING }, closest_parent: { type: Type.STRING, nullable: true }, examples: { type: Type.ARRAY, items: { type: Type.STRING } } }, required: ["name", "definition", "closest_parent", "examples"] } }
+                    }, required: ["entities", "new_types"]
                 }
-            }, abortSignal);
-            const result = JSON.parse(response.text);
+            }, abortSignal, hooks);
             const proposal: SchemaProposal | null = result.new_types.length > 0 ? { id: `prop-${Date.now()}`, baseVersion: schema.meta.version, new_types: result.new_types, new_predicates: [], evidence: { paperId: 'current', quotes: [] } } : null;
-            return { entities: result.entities || [], proposals: proposal ? [proposal] : [] };
+            return { entities: withTaxonNames(withCoordinates(result.entities || [], candidates), candidates), proposals: proposal ? [proposal] : [] };
         }
 
         const prompt = fillTemplate(promptTemplates.schema, {
             guidance,
             all_concepts: getAllConcepts(schema).join(', '),
             text: cleanText,
-            candidate_hints: JSON.stringify(candidates.map(c => ({ name: c.name, type: c.type })), null, 2),
+            candidate_hints: JSON.stringify([
+                ...candidates.map(c => ({
+                    name: c.name,
+                    type: c.type,
+                    ...(c.chrono ? { ics_unit: c.chrono.unit, age_ma: [c.chrono.base, c.chrono.top] } : {}),
+                    ...(c.coordinates ? { latitude: c.coordinates.latitude, longitude: c.coordinates.longitude } : {}),
+                    ...(c.taxon ? taxonHint(c.taxon) : {}),
+                })),
+                ...ages.map(ageHint),
+            ], null, 2),
         });
-        const response = await generateContentWithAbort(ai, { 
-            model: llmConfig.model, 
-            contents: prompt, 
-            config: { 
-                temperature: llmConfig.temperature, 
-                responseMimeType: "application/json", 
-                responseSchema: { 
-                    type: Type.ARRAY, 
-                    items: { 
-                        type: Type.OBJECT, 
-                        properties: { 
-                            name: { type: Type.STRING }, 
-                            type: { type: Type.STRING }, 
-                            confidence: { type: Type.NUMBER }, 
-                            justification: { type: Type.STRING } 
-                        }, 
-                        required: ["name", "type", "confidence", "justification"] 
-                    } 
+        const entities = await generateValidatedJson<Omit<ExtractedEntity, 'selected'>[]>(llmConfig, { 
+            prompt, 
+            responseSchema: { 
+                type: Type.ARRAY, 
+                items: { 
+                    type: Type.OBJECT, 
+                    properties: { 
+                        name: { type: Type.STRING }, 
+                        type: { type: Type.STRING }, 
+                        confidence: { type: Type.NUMBER }, 
+                        justification: { type: Type.STRING } 
+                    }, 
+                    required: ["name", "type", "confidence", "justification"] 
                 } 
             } 
-        }, abortSignal);
-        const entities = JSON.parse(response.text);
+        }, abortSignal, hooks);
 
-        return { entities: entities, proposals: [] };
+        return { entities: withTaxonNames(withCoordinates(entities, candidates), candidates), proposals: [] };
 
     } catch (e) {
-         if (e instanceof Error && e.name === 'AbortError') throw e;
-         if (e instanceof Error) { if (e.message.includes('429')) throw new Error("429 - Rate limit exceeded."); throw e; } 
-         else { throw new Error("An unknown error occurred during entity extraction."); }
+         if (e instanceof Error) throw e;
+         throw new Error("An unknown error occurred during entity extraction.");
     }
 };
 
 export const extractRelationships = async (
-    documentText: string, schema: Schema, entities: ExtractedEntity[], extractionMode: ExtractionMode, paperCore: PaperCore | null, llmConfig: LlmConfig, promptTemplates: { schema: string, automated: string }, abortSignal: AbortSignal
+    documentText: string, schema: Schema, entities: ExtractedEntity[], extractionMode: ExtractionMode, paperCore: PaperCore | null, llmConfig: LlmConfig, promptTemplates: { schema: string, automated: string }, abortSignal: AbortSignal, hooks?: LlmCallHooks, knownGenera: string[] = []
 ): Promise<{triples: Omit<Triple, 'source'>[], proposals: SchemaProposal[]}> => {
-    if (llmConfig.provider !== 'gemini') {
-        throw new Error(`Provider "${llmConfig.provider}" is not yet supported.`);
-    }
     const guidance = summarizePaperCoreForGuidance(paperCore);
-    const { cleanText } = preprocessText(documentText);
-    const ai = getGeminiClient(llmConfig.apiKey);
+    const { cleanText, candidates } = preprocessText(documentText, knownGenera);
     const typedEntitiesString = entities.map(e => `- "${e.name}" (type: ${e.type})`).join('\n');
     const predicateReference = generatePredicateReference(schema.predicates.definitions);
 
@@ -263,21 +260,17 @@ export const extractRelationships = async (
                 predicate_reference: predicateReference,
                 text: cleanText,
             });
-            const response = await generateContentWithAbort(ai, {
-                model: llmConfig.model, contents: prompt,
-                config: {
-                    temperature: llmConfig.temperature, responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.OBJECT, properties: {
-                            triples: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { subject: { type: Type.STRING }, predicate: { type: Type.STRING }, object: { type: Type.STRING }, evidenceText: { type: Type.STRING }, confidence: { type: Type.NUMBER }, justification: { type: Type.STRING } }, required: ["subject", "predicate", "object", "evidenceText", "confidence", "justification"] } },
-                            new_predicates: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, description: { type: Type.STRING }, domain: { type: Type.ARRAY, items: { type: Type.STRING } }, range: { type: Type.ARRAY, items: { type: Type.STRING } }, example: { type: Type.OBJECT, properties: { subject: { type: Type.STRING }, object: { type: Type.STRING }, evidenceText: { type: Type.STRING } }, required: ["subject", "object", "evidenceText"] } }, required: ["name", "description", "domain", "range", "example"] } }
-                        }, required: ["triples", "new_predicates"]
-                    }
+            const result = await generateValidatedJson<{ triples: Omit<Triple, 'source'>[], new_predicates: SchemaProposal['new_predicates'] }>(llmConfig, {
+                prompt,
+                responseSchema: {
+                    type: Type.OBJECT, properties: {
+                        triples: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { subject: { type: Type.STRING }, predicate: { type: Type.STRING }, object: { type: Type.STRING }, evidenceText: { type: Type.STRING }, confidence: { type: Type.NUMBER }, justification: { type: Type.STRING } }, required: ["subject", "predicate", "object", "evidenceText", "confidence", "justification"] } },
+                        new_predicates: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, description: { type: Type.STRING }, domain: { type: Type.ARRAY, items: { type: Type.STRING } }, range: { type: Type.ARRAY, items: { type: Type.STRING } }, example: { type: Type.OBJECT, properties: { subject: { type: Type.STRING }, object: { type: Type.STRING }, evidenceText: { type: Type.STRING } }, required: ["subject", "object", "evidenceText"] } }, required: ["name", "description", "domain", "range", "example"] } }
+                    }, required: ["triples", "new_predicates"]
                 }
-            }, abortSignal);
-            const result = JSON.parse(response.text);
+            }, abortSignal, hooks);
             const proposal: SchemaProposal | null = result.new_predicates.length > 0 ? { id: `prop-${Date.now()}`, baseVersion: schema.meta.version, new_types: [], new_predicates: result.new_predicates, evidence: { paperId: 'current', quotes: result.new_predicates.map((p: any) => p.example.evidenceText) } } : null;
-            return { triples: result.triples || [], proposals: proposal ? [proposal] : [] };
+            return { triples: withTaxonNames(result.triples || [], candidates), proposals: proposal ? [proposal] : [] };
         }
         
         const prompt = fillTemplate(promptTemplates.schema, {
@@ -286,22 +279,157 @@ export const extractRelationships = async (
             predicate_reference: predicateReference,
             document: cleanText,
         });
-        const response = await generateContentWithAbort(ai, {
-            model: llmConfig.model, contents: prompt,
-            config: {
-                temperature: llmConfig.temperature, responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT, properties: { triples: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { subject: { type: Type.STRING }, predicate: { type: Type.STRING }, object: { type: Type.STRING }, evidenceText: { type: Type.STRING }, confidence: { type: Type.NUMBER }, justification: { type: Type.STRING } }, required: ["subject", "predicate", "object", "evidenceText", "confidence", "justification"] } } }, required: ["triples"]
-                }
+        const result = await generateValidatedJson<{ triples: Omit<Triple, 'source'>[] }>(llmConfig, {
+            prompt,
+            responseSchema: {
+                type: Type.OBJECT, properties: { triples: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { subject: { type: Type.STRING }, predicate: { type: Type.STRING }, object: { type: Type.STRING }, evidenceText: { type: Type.STRING }, confidence: { type: Type.NUMBER }, justification: { type: Type.STRING } }, required: ["subject", "predicate", "object", "evidenceText", "confidence", "justification"] } } }, required: ["triples"]
             }
-        }, abortSignal);
-
-        const result = JSON.parse(response.text);
-        return { triples: result.triples || [], proposals: [] };
+        }, abortSignal, hooks);
+        return { triples: withTaxonNames(result.triples || [], candidates), proposals: [] };
 
     } catch (e) {
-        if (e instanceof Error && e.name === 'AbortError') throw e;
-        if (e instanceof Error) { if (e.message.includes('429')) throw new Error("429 - Rate limit exceeded."); throw e; } 
-        else { throw new Error("An unknown error occurred during relationship extraction."); }
+        if (e instanceof Error) throw e;
+        throw new Error("An unknown error occurred during relationship extraction.");
+    }
+};
+
+// --- Map-reduce over document chunks ---
+
+// Longest chunk text sent in one extraction request; longer chunks are split into parts.
+export const MAX_CHUNK_CHARS = 12000;
+
+interface ChunkPart {
+    chunk: DocumentChunk;
+    text: string;
+}
+
+const markdownRow = (cells: string[]): string => `| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+
+// Writes a table as Markdown, split into groups of rows that each repeat the caption and header.
+export const renderTableParts = (table: TableData, maxChars: number): string[] => {
+    const head = [
+        ...(table.caption ? [table.caption] : []),
+        markdownRow(table.header),
+        markdownRow(table.header.map(() => '---')),
+    ].join('\n');
+    const parts: string[][] = [[]];
+    let length = head.length;
+    for (const row of table.rows.map(markdownRow)) {
+        const current = parts[parts.length - 1];
+        if (current.length > 0 && length + row.length + 1 > maxChars) {
+            parts.push([]);
+            length = head.length;
+        }
+        parts[parts.length - 1].push(row);
+        length += row.length + 1;
+    }
+    return parts.map(rows => [head, ...rows].join('\n'));
+};
+
+// Each part is prefixed with its section so the model knows where in the paper the text comes from.
+// Chunks with a rebuilt table are sent as Markdown tables instead of their flattened text.
+const toChunkParts = (chunks: DocumentChunk[]): ChunkPart[] =>
+    chunks.flatMap(chunk => {
+        const header = `[Section: ${chunk.sectionPath.join(' > ') || 'Untitled'} | Kind: ${chunk.kind}]`;
+        const texts = chunk.table
+            ? renderTableParts(chunk.table, MAX_CHUNK_CHARS)
+            : splitIntoWindows(chunk.content, MAX_CHUNK_CHARS).map(window => window.text);
+        return texts.map(text => ({ chunk, text: `${header}\n${text}` }));
+    });
+
+const normalizeName = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Keeps one entity per name and type, preferring the most confident mention.
+export const mergeEntities = <T extends { name: string; type: string; confidence?: number }>(entities: T[]): T[] => {
+    const merged = new Map<string, T>();
+    for (const entity of entities) {
+        const key = `${normalizeName(entity.name)}|${entity.type}`;
+        const existing = merged.get(key);
+        if (!existing || (entity.confidence ?? 0) > (existing.confidence ?? 0)) merged.set(key, entity);
+    }
+    return [...merged.values()];
+};
+
+// Keeps one triple per subject, predicate and object, preferring the most confident one
+// and collecting the provenance of every chunk it was found in.
+export const mergeTriples = (triples: Omit<Triple, 'source'>[]): Omit<Triple, 'source'>[] => {
+    const merged = new Map<string, Omit<Triple, 'source'>>();
+    for (const triple of triples) {
+        const key = [triple.subject, triple.predicate, triple.object].map(normalizeName).join('|');
+        const existing = merged.get(key);
+        if (!existing) {
+            merged.set(key, triple);
+            continue;
+        }
+        const best = (triple.confidence ?? 0) > (existing.confidence ?? 0) ? triple : existing;
+        const provenance = [...(existing.provenance || []), ...(triple.provenance || [])]
+            .filter((p, i, all) => all.findIndex(other => other.chunkId === p.chunkId) === i);
+        merged.set(key, { ...best, provenance });
     }
-};
\ No newline at end of file
+    return [...merged.values()];
+};
+
+// Combines the proposals of all chunks of a document into one, without repeating a type or predicate.
+const mergeProposals = (proposals: SchemaProposal[]): SchemaProposal[] => {
+    if (proposals.length <= 1) return proposals;
+    const uniqueByName = <T extends { name: string }>(items: T[]) => items.filter((item, i) => items.findIndex(other => other.name === item.name) === i);
+    return [{
+        ...proposals[0],
+        new_types: uniqueByName(proposals.flatMap(p => p.new_types)),
+        new_predicates: uniqueByName(proposals.flatMap(p => p.new_predicates)),
+        evidence: { ...proposals[0].evidence, quotes: [...new Set(proposals.flatMap(p => p.evidence.quotes))] },
+    }];
+};
+
+// For each part, the genera written out in the parts before it, so "T. rex" at the start of a
+// chunk is still read as the Tyrannosaurus named in an earlier section.
+const knownGeneraByPart = (parts: ChunkPart[]): string[][] => {
+    const seen: string[] = [];
+    return parts.map(part => {
+        const before = [...seen];
+        seen.push(...findTaxonNames(part.text, before).map(m => m.genus).filter(genus => !genus.endsWith('.')));
+        return before;
+    });
+};
+
+export const extractEntitiesFromChunks = async (
+    chunks: DocumentChunk[], schema: Schema, extractionMode: ExtractionMode, paperCore: PaperCore | null, llmConfig: LlmConfig, promptTemplates: { schema: string, automated: string }, abortSignal: AbortSignal, hooks?: LlmCallHooks
+): Promise<{ entities: Omit<ExtractedEntity, 'selected'>[], proposals: SchemaProposal[] }> => {
+    const parts = toChunkParts(chunks);
+    const genera = knownGeneraByPart(parts);
+    const results = await Promise.all(parts.map((part, i) =>
+        extractEntities(part.text, schema, extractionMode, paperCore, llmConfig, promptTemplates, abortSignal, hooks, genera[i])));
+    return {
+        entities: mergeEntities(results.flatMap(r => r.entities)).map(entity => {
+            const age = entity.type === 'AbsoluteAgeValue' ? ageOf(entity.name) : undefined;
+            return age ? { ...entity, age } : entity;
+        }),
+        proposals: mergeProposals(results.flatMap(r => r.proposals)),
+    };
+};
+
+export const extractRelationshipsFromChunks = async (
+    chunks: DocumentChunk[], schema: Schema, entities: ExtractedEntity[], extractionMode: ExtractionMode, paperCore: PaperCore | null, llmConfig: LlmConfig, promptTemplates: { schema: string, automated: string, table?: string }, abortSignal: AbortSignal, hooks?: LlmCallHooks
+): Promise<{triples: Omit<Triple, 'source'>[], proposals: SchemaProposal[]}> => {
+    const parts = toChunkParts(chunks);
+    const genera = knownGeneraByPart(parts);
+    const results = await Promise.all(parts.map(async (part, i) => {
+        // Only the entities mentioned in the part are listed, unless it mentions none by name.
+        const text = part.text.toLowerCase();
+        const mentioned = entities.filter(e => text.includes(e.name.toLowerCase()));
+        const relevant = mentioned.length > 0 ? mentioned : entities;
+        // Tables go to the table prompt, which reads rows as records; it proposes no new predicates.
+        const result = part.chunk.table && promptTemplates.table
+            ? await extractRelationships(part.text, schema, relevant, 'schema_mode', paperCore, llmConfig, { schema: promptTemplates.table, automated: promptTemplates.table }, abortSignal, hooks, genera[i])
+            : await extractRelationships(part.text, schema, relevant, extractionMode, paperCore, llmConfig, promptTemplates, abortSignal, hooks, genera[i]);
+        const provenance: ChunkProvenance = { chunkId: part.chunk.id, sectionPath: part.chunk.sectionPath, kind: part.chunk.kind, pages: part.chunk.pages };
+        return { triples: result.triples.map(t => ({ ...t, provenance: [provenance] })), proposals: result.proposals };
+    }));
+    return {
+        triples: mergeTriples(results.flatMap(r => r.triples)).map(triple => {
+            const objectAge = objectAgeOf(triple);
+            return normalizeMeasurement(objectAge ? { ...triple, objectAge } : triple);
+        }),
+        proposals: mergeProposals(results.flatMap(r => r.proposals)),
+    };
+};
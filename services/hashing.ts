@@ -0,0 +1,28 @@
+// Content hashing helpers shared by request fixtures and caches.
+// Uses Web Crypto, which is available in browsers and in Node 20+.
+
+/**
+ * JSON.stringify with object keys sorted at every level, so that
+ * semantically equal values always produce the same string.
+ */
+export const stableStringify = (value: unknown): string => {
+    if (Array.isArray(value)) {
+        return `[${value.map(v => stableStringify(v === undefined ? null : v)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+            .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+/**
+ * Hex-encoded SHA-256 of a string.
+ */
+export const sha256Hex = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
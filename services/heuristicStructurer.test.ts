@@ -0,0 +1,83 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect } from 'vitest';
+import { detectHeading, heuristicChunkDocument } from './heuristicStructurer';
+
+const PAPER = [
+  'Late Ordovician reefs of Anticosti Island',
+  'A. Author and B. Author',
+  '',
+  'Abstract',
+  'We describe reef growth across the boundary.',
+  '',
+  '1. Introduction',
+  'Reefs are common in the Ellis Bay Formation.',
+  '2. GEOLOGICAL SETTING',
+  'The succession spans the Katian and Hirnantian.',
+  '2.1 Ellis Bay Formation',
+  'The formation is 1 to 2 m thick in places and',
+  '12 members are recognised by some authors.',
+  'Figure 1. Map of the study area.',
+  'Outcrops along the south coast.',
+  '',
+  '3. Methods',
+  'Samples were thin-sectioned.',
+  'Table 2: Sample localities.',
+  '',
+  'References',
+  '1. Smith, J. Reefs. 2001.',
+  '2. Jones, K. Corals. 2005.',
+].join('\n');
+
+describe('detectHeading', () => {
+
+  it('should recognise conventional and numbered headings', () => {
+    expect(detectHeading('Results')).toMatchObject({ title: 'Results', level: 1, conventional: true });
+    expect(detectHeading('3. GEOLOGICAL SETTING')).toMatchObject({ title: 'Geological Setting', level: 1, numbers: [3] });
+    expect(detectHeading('2.1 Detrital zircon ages')).toMatchObject({ title: 'Detrital zircon ages', level: 2, numbers: [2, 1], conventional: false });
+  });
+
+  it('should reject sentences and numbered reference entries', () => {
+    expect(detectHeading('12 members are recognised by some authors.')).toBeNull();
+    expect(detectHeading('The formation is thick in places')).toBeNull();
+    expect(detectHeading('2. Jones Corals', true)).toBeNull();
+  });
+
+});
+
+describe('heuristicChunkDocument', () => {
+
+  it('should split at headings, keeping subsection paths and section kinds', () => {
+    const chunks = heuristicChunkDocument(PAPER);
+
+    expect(chunks.map(c => [c.sectionPath.join(' > '), c.kind])).toEqual([
+      ['Front Matter', 'body'],
+      ['Abstract', 'body'],
+      ['Introduction', 'body'],
+      ['Geological Setting', 'body'],
+      ['Geological Setting > Ellis Bay Formation', 'body'],
+      ['Geological Setting > Ellis Bay Formation', 'caption'],
+      ['Methods', 'methods'],
+      ['Methods', 'table'],
+      ['References', 'references'],
+    ]);
+    expect(chunks.map(c => c.id)).toEqual(chunks.map((_, i) => `s${i + 1}`));
+    expect(chunks.every(c => c.selected)).toBe(true);
+  });
+
+  it('should end a caption at the next blank line and keep all text', () => {
+    const chunks = heuristicChunkDocument(PAPER);
+
+    expect(chunks[5].content).toBe('Figure 1. Map of the study area.\nOutcrops along the south coast.\n');
+    expect(chunks.map(c => c.content).join('').replace(/\s/g, '')).toBe(PAPER.replace(/\s/g, ''));
+  });
+
+  it('should ignore numbered lines that break the section numbering', () => {
+    const chunks = heuristicChunkDocument('1. Introduction\nText.\n5 Samples were taken\nMore text.');
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].sectionPath).toEqual(['Introduction']);
+  });
+
+});
@@ -0,0 +1,154 @@
+import type { DocumentChunk } from '../types';
+
+// Deterministic, offline alternative to llmChunkDocument. Splits the text at numbered and
+// conventional section headings and cuts figure and table captions into chunks of their own.
+
+type ChunkKind = DocumentChunk['kind'];
+
+interface Heading {
+    title: string;
+    // 1 for top-level sections, 2 for "2.1", 3 for "2.1.1".
+    level: number;
+    // The heading's section number, e.g. [2, 1] for "2.1"; absent for unnumbered headings.
+    numbers?: number[];
+    conventional: boolean;
+}
+
+const CONVENTIONAL_HEADINGS = [
+    'abstract', 'summary', 'introduction', 'background', 'previous work',
+    'geologic setting', 'geological setting', 'geologic background', 'geological background', 'regional geology', 'study area',
+    'methods', 'method', 'methodology', 'materials and methods', 'analytical methods',
+    'results', 'discussion', 'results and discussion', 'conclusion', 'conclusions', 'summary and conclusions',
+    'acknowledgments', 'acknowledgements', 'references', 'references cited', 'bibliography', 'literature cited',
+    'appendix', 'supplementary material', 'supplementary data',
+];
+
+const METHODS_HEADINGS = /^(methods?|methodology|materials and methods|analytical methods)$/i;
+const REFERENCES_HEADINGS = /^(references|references cited|bibliography|literature cited)$/i;
+
+const NUMBERING = /^((?:\d{1,2}\.){0,3}\d{1,2})\.?\s+/;
+const CAPTION_START = /^(fig(?:ure)?|table|plate)\.?\s*\d+[a-z]?\s*[.:|—–-]\s/i;
+// Longest heading line considered; anything longer reads as a sentence.
+const MAX_HEADING_CHARS = 100;
+const MAX_HEADING_WORDS = 12;
+// Captions without a following blank line end here at the latest.
+const MAX_CAPTION_CHARS = 1500;
+
+const toTitleCase = (text: string): string =>
+    text === text.toUpperCase() ? text.toLowerCase().replace(/\b[a-z]/g, c => c.toUpperCase()) : text;
+
+/**
+ * Recognises a line as a section heading: a conventional heading such as "Results" or
+ * "3. GEOLOGICAL SETTING", or a numbered heading such as "2.1 Detrital zircon ages".
+ * Numbered headings are ignored inside the references, where entries are numbered too.
+ */
+export const detectHeading = (line: string, inReferences = false): Heading | null => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.length > MAX_HEADING_CHARS) return null;
+
+    const numbering = trimmed.match(NUMBERING);
+    const title = (numbering ? trimmed.slice(numbering[0].length) : trimmed).replace(/[:.]$/, '').trim();
+    const numbers = numbering ? numbering[1].split('.').map(Number) : undefined;
+    const level = numbers ? numbers.length : 1;
+
+    if (CONVENTIONAL_HEADINGS.includes(title.toLowerCase())) {
+        return { title: toTitleCase(title), level, numbers, conventional: true };
+    }
+    if (!numbers || inReferences) return null;
+    // A numbered heading is short, starts with a capital and is not a sentence.
+    const words = title.split(/\s+/);
+    if (!/^[A-Z]/.test(title) || words.length > MAX_HEADING_WORDS || /[.;,]$/.test(trimmed)) return null;
+    return { title: toTitleCase(title), level, numbers, conventional: false };
+};
+
+// Wrapped lines that merely start with a number look like numbered headings, so a numbered
+// heading is only accepted when it continues the current numbering: after 2.1 come 2.2, 2.1.1 or 3.
+const continuesNumbering = (numbers: number[], current: number[]): boolean => {
+    const parent = numbers.slice(0, -1);
+    const last = numbers[numbers.length - 1];
+    if (parent.some((n, i) => n !== current[i])) return false;
+    const previous = current[numbers.length - 1];
+    // The first top-level number may be 2 when an unnumbered abstract or introduction counts as 1.
+    if (previous === undefined) return last <= (numbers.length === 1 ? 2 : 1);
+    return last === previous + 1;
+};
+
+interface Line {
+    text: string;
+    start: number;
+    end: number;
+}
+
+const splitLines = (text: string): Line[] => {
+    const lines: Line[] = [];
+    let start = 0;
+    for (const content of text.split('\n')) {
+        lines.push({ text: content, start, end: start + content.length });
+        start += content.length + 1;
+    }
+    return lines;
+};
+
+export const heuristicChunkDocument = (rawText: string): DocumentChunk[] => {
+    const chunks: DocumentChunk[] = [];
+    const pushChunk = (start: number, end: number, sectionPath: string[], kind: ChunkKind) => {
+        const content = rawText.substring(start, end);
+        if (!content.trim()) return;
+        chunks.push({ id: `s${chunks.length + 1}`, sectionPath, kind, content, selected: true, start, end });
+    };
+
+    let sectionPath: string[] = ['Front Matter'];
+    let sectionKind: ChunkKind = 'body';
+    let segmentStart = 0;
+    // Set while inside a caption: its kind and where it started.
+    let caption: { kind: ChunkKind; start: number } | null = null;
+    let numbering: number[] = [];
+
+    const acceptHeading = (line: string): Heading | null => {
+        const heading = detectHeading(line, sectionKind === 'references');
+        if (!heading?.numbers) return heading;
+        if (!heading.conventional && !continuesNumbering(heading.numbers, numbering)) return null;
+        numbering = heading.numbers;
+        return heading;
+    };
+
+    const lines = splitLines(rawText);
+    lines.forEach((line, i) => {
+        // A caption starts a paragraph: after a blank line, a finished sentence or another caption.
+        const previous = i > 0 ? lines[i - 1].text.trim() : '';
+        const startsParagraph = !previous || /[.:]$/.test(previous) || caption !== null;
+        const captionMatch = startsParagraph && sectionKind !== 'references' ? line.text.trim().match(CAPTION_START) : null;
+
+        if (caption) {
+            const ended = !line.text.trim() || captionMatch !== null || detectHeading(line.text) !== null
+                || line.end - caption.start > MAX_CAPTION_CHARS;
+            if (!ended) return;
+            pushChunk(caption.start, line.start, sectionPath, caption.kind);
+            segmentStart = line.start;
+            caption = null;
+        }
+
+        const heading = acceptHeading(line.text);
+        if (heading) {
+            pushChunk(segmentStart, line.start, sectionPath, sectionKind);
+            segmentStart = line.start;
+            if (heading.level === 1) {
+                sectionPath = [heading.title];
+                sectionKind = METHODS_HEADINGS.test(heading.title) ? 'methods' : REFERENCES_HEADINGS.test(heading.title) ? 'references' : 'body';
+            } else {
+                // Subsections keep their parents' path and kind; a missing parent level is skipped.
+                sectionPath = [...sectionPath.slice(0, heading.level - 1), heading.title];
+            }
+            return;
+        }
+
+        if (captionMatch) {
+            pushChunk(segmentStart, line.start, sectionPath, sectionKind);
+            caption = { kind: /^table/i.test(captionMatch[1]) ? 'table' : 'caption', start: line.start };
+        }
+    });
+
+    if (caption) pushChunk(caption.start, rawText.length, sectionPath, caption.kind);
+    else pushChunk(segmentStart, rawText.length, sectionPath, sectionKind);
+    return chunks;
+};
@@ -0,0 +1,42 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect } from 'vitest';
+import { ICS_CHART, chronoAncestry, findChronoMentions, findChronoUnit } from './icsTimescale';
+
+describe('ICS chart', () => {
+  it('links every unit to a parent that spans it', () => {
+    for (const unit of ICS_CHART.filter(u => u.parent)) {
+      const parent = findChronoUnit(unit.parent!);
+      expect(parent, unit.name).toBeDefined();
+      expect(unit.base, unit.name).toBeLessThanOrEqual(parent!.base);
+      expect(unit.top, unit.name).toBeGreaterThanOrEqual(parent!.top);
+      expect(unit.base, unit.name).toBeGreaterThan(unit.top);
+    }
+  });
+
+  it('finds units by name and spelling variant, with their ancestry', () => {
+    expect(findChronoUnit('aptian')).toEqual({ name: 'Aptian', rank: 'Stage', parent: 'Lower Cretaceous', base: 121.4, top: 113.2 });
+    expect(findChronoUnit('Palaeogene')?.name).toBe('Paleogene');
+    expect(chronoAncestry(findChronoUnit('Aptian')!).map(u => u.name)).toEqual(['Aptian', 'Lower Cretaceous', 'Cretaceous', 'Mesozoic', 'Phanerozoic']);
+  });
+});
+
+describe('findChronoMentions', () => {
+  it('maps Early/Late qualifiers onto the chart series and keeps others', () => {
+    const mentions = findChronoMentions('Late Cretaceous (Campanian) strata overlie latest Aptian and Lower Jurassic beds of Permian age.');
+    expect(mentions.map(m => [m.text, m.unit.name, m.unit.rank, m.qualifier])).toEqual([
+      ['Late Cretaceous', 'Upper Cretaceous', 'Series', undefined],
+      ['Campanian', 'Campanian', 'Stage', undefined],
+      ['latest Aptian', 'Aptian', 'Stage', 'Upper'],
+      ['Lower Jurassic', 'Lower Jurassic', 'Series', undefined],
+      ['Permian', 'Permian', 'System', undefined],
+    ]);
+  });
+
+  it('includes rank words and skips lower-case words', () => {
+    expect(findChronoMentions('the Triassic Period').map(m => m.text)).toEqual(['Triassic Period']);
+    expect(findChronoMentions('a danian style')).toEqual([]);
+    expect(findChronoMentions('mid-cretaceous', true).map(m => m.unit.name)).toEqual(['Cretaceous']);
+  });
+});
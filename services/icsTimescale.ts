@@ -0,0 +1,207 @@
+// The International Chronostratigraphic Chart (ICS, v2023/09) from eonothems down to stages,
+// with numeric boundary ages in Ma, and recognition of its unit names in text.
+// Unnamed Cambrian units ("Stage 10", "Series 2") are left out, since their names are too
+// generic to spot reliably; their named parents still span them.
+
+export type ChronoRank = 'Eonothem' | 'Erathem' | 'System' | 'Subsystem' | 'Series' | 'Stage';
+
+export interface ChronoUnit {
+    name: string;
+    rank: ChronoRank;
+    parent?: string;
+    // Ages of the lower and upper boundary, in Ma.
+    base: number;
+    top: number;
+}
+
+interface ChartNode {
+    name: string;
+    rank: ChronoRank;
+    base: number;
+    top: number;
+    children: ChartNode[];
+}
+
+const node = (rank: ChronoRank) => (name: string, base: number, top: number, ...children: ChartNode[]): ChartNode => ({ name, rank, base, top, children });
+const eonothem = node('Eonothem');
+const erathem = node('Erathem');
+const system = node('System');
+const subsystem = node('Subsystem');
+const series = node('Series');
+const stage = node('Stage');
+
+const CHART: ChartNode[] = [
+    eonothem('Phanerozoic', 538.8, 0,
+        erathem('Cenozoic', 66.0, 0,
+            system('Quaternary', 2.58, 0,
+                series('Holocene', 0.0117, 0,
+                    stage('Meghalayan', 0.0042, 0), stage('Northgrippian', 0.0082, 0.0042), stage('Greenlandian', 0.0117, 0.0082)),
+                series('Pleistocene', 2.58, 0.0117,
+                    stage('Chibanian', 0.774, 0.129), stage('Calabrian', 1.80, 0.774), stage('Gelasian', 2.58, 1.80))),
+            system('Neogene', 23.03, 2.58,
+                series('Pliocene', 5.333, 2.58,
+                    stage('Piacenzian', 3.600, 2.58), stage('Zanclean', 5.333, 3.600)),
+                series('Miocene', 23.03, 5.333,
+                    stage('Messinian', 7.246, 5.333), stage('Tortonian', 11.63, 7.246), stage('Serravallian', 13.82, 11.63),
+                    stage('Langhian', 15.98, 13.82), stage('Burdigalian', 20.44, 15.98), stage('Aquitanian', 23.03, 20.44))),
+            system('Paleogene', 66.0, 23.03,
+                series('Oligocene', 33.9, 23.03,
+                    stage('Chattian', 27.82, 23.03), stage('Rupelian', 33.9, 27.82)),
+                series('Eocene', 56.0, 33.9,
+                    stage('Priabonian', 37.71, 33.9), stage('Bartonian', 41.2, 37.71), stage('Lutetian', 47.8, 41.2), stage('Ypresian', 56.0, 47.8)),
+                series('Paleocene', 66.0, 56.0,
+                    stage('Thanetian', 59.2, 56.0), stage('Selandian', 61.6, 59.2), stage('Danian', 66.0, 61.6)))),
+        erathem('Mesozoic', 251.902, 66.0,
+            system('Cretaceous', 143.1, 66.0,
+                series('Upper Cretaceous', 100.5, 66.0,
+                    stage('Maastrichtian', 72.1, 66.0), stage('Campanian', 83.6, 72.1), stage('Santonian', 86.3, 83.6),
+                    stage('Coniacian', 89.8, 86.3), stage('Turonian', 93.9, 89.8), stage('Cenomanian', 100.5, 93.9)),
+                series('Lower Cretaceous', 143.1, 100.5,
+                    stage('Albian', 113.2, 100.5), stage('Aptian', 121.4, 113.2), stage('Barremian', 125.77, 121.4),
+                    stage('Hauterivian', 132.6, 125.77), stage('Valanginian', 137.05, 132.6), stage('Berriasian', 143.1, 137.05))),
+            system('Jurassic', 201.4, 143.1,
+                series('Upper Jurassic', 161.5, 143.1,
+                    stage('Tithonian', 149.2, 143.1), stage('Kimmeridgian', 154.8, 149.2), stage('Oxfordian', 161.5, 154.8)),
+                series('Middle Jurassic', 174.7, 161.5,
+                    stage('Callovian', 165.3, 161.5), stage('Bathonian', 168.2, 165.3), stage('Bajocian', 170.9, 168.2), stage('Aalenian', 174.7, 170.9)),
+                series('Lower Jurassic', 201.4, 174.7,
+                    stage('Toarcian', 184.2, 174.7), stage('Pliensbachian', 192.9, 184.2), stage('Sinemurian', 199.5, 192.9), stage('Hettangian', 201.4, 199.5))),
+            system('Triassic', 251.902, 201.4,
+                series('Upper Triassic', 237, 201.4,
+                    stage('Rhaetian', 208.5, 201.4), stage('Norian', 227, 208.5), stage('Carnian', 237, 227)),
+                series('Middle Triassic', 247.2, 237,
+                    stage('Ladinian', 242, 237), stage('Anisian', 247.2, 242)),
+                series('Lower Triassic', 251.902, 247.2,
+                    stage('Olenekian', 251.2, 247.2), stage('Induan', 251.902, 251.2)))),
+        erathem('Paleozoic', 538.8, 251.902,
+            system('Permian', 298.9, 251.902,
+                series('Lopingian', 259.51, 251.902,
+                    stage('Changhsingian', 254.14, 251.902), stage('Wuchiapingian', 259.51, 254.14)),
+                series('Guadalupian', 274.4, 259.51,
+                    stage('Capitanian', 264.28, 259.51), stage('Wordian', 266.9, 264.28), stage('Roadian', 274.4, 266.9)),
+                series('Cisuralian', 298.9, 274.4,
+                    stage('Kungurian', 283.5, 274.4), stage('Artinskian', 290.1, 283.5), stage('Sakmarian', 293.52, 290.1), stage('Asselian', 298.9, 293.52))),
+            system('Carboniferous', 358.9, 298.9,
+                subsystem('Pennsylvanian', 323.2, 298.9,
+                    series('Upper Pennsylvanian', 307.0, 298.9, stage('Gzhelian', 303.7, 298.9), stage('Kasimovian', 307.0, 303.7)),
+                    series('Middle Pennsylvanian', 315.2, 307.0, stage('Moscovian', 315.2, 307.0)),
+                    series('Lower Pennsylvanian', 323.2, 315.2, stage('Bashkirian', 323.2, 315.2))),
+                subsystem('Mississippian', 358.9, 323.2,
+                    series('Upper Mississippian', 330.9, 323.2, stage('Serpukhovian', 330.9, 323.2)),
+                    series('Middle Mississippian', 346.7, 330.9, stage('Visean', 346.7, 330.9)),
+                    series('Lower Mississippian', 358.9, 346.7, stage('Tournaisian', 358.9, 346.7)))),
+            system('Devonian', 419.2, 358.9,
+                series('Upper Devonian', 382.7, 358.9,
+                    stage('Famennian', 372.2, 358.9), stage('Frasnian', 382.7, 372.2)),
+                series('Middle Devonian', 393.3, 382.7,
+                    stage('Givetian', 387.7, 382.7), stage('Eifelian', 393.3, 387.7)),
+                series('Lower Devonian', 419.2, 393.3,
+                    stage('Emsian', 407.6, 393.3), stage('Pragian', 410.8, 407.6), stage('Lochkovian', 419.2, 410.8))),
+            system('Silurian', 443.8, 419.2,
+                series('Pridoli', 423.0, 419.2),
+                series('Ludlow', 427.4, 423.0,
+                    stage('Ludfordian', 425.6, 423.0), stage('Gorstian', 427.4, 425.6)),
+                series('Wenlock', 433.4, 427.4,
+                    stage('Homerian', 430.5, 427.4), stage('Sheinwoodian', 433.4, 430.5)),
+                series('Llandovery', 443.8, 433.4,
+                    stage('Telychian', 438.5, 433.4), stage('Aeronian', 440.8, 438.5), stage('Rhuddanian', 443.8, 440.8))),
+            system('Ordovician', 485.4, 443.8,
+                series('Upper Ordovician', 458.4, 443.8,
+                    stage('Hirnantian', 445.2, 443.8), stage('Katian', 453.0, 445.2), stage('Sandbian', 458.4, 453.0)),
+                series('Middle Ordovician', 470.0, 458.4,
+                    stage('Darriwilian', 467.3, 458.4), stage('Dapingian', 470.0, 467.3)),
+                series('Lower Ordovician', 485.4, 470.0,
+                    stage('Floian', 477.7, 470.0), stage('Tremadocian', 485.4, 477.7))),
+            system('Cambrian', 538.8, 485.4,
+                series('Furongian', 497, 485.4,
+                    stage('Jiangshanian', 494, 489.5), stage('Paibian', 497, 494)),
+                series('Miaolingian', 509, 497,
+                    stage('Guzhangian', 500.5, 497), stage('Drumian', 504.5, 500.5), stage('Wuliuan', 509, 504.5)),
+                series('Terreneuvian', 538.8, 521,
+                    stage('Fortunian', 538.8, 529))))),
+    eonothem('Proterozoic', 2500, 538.8,
+        erathem('Neoproterozoic', 1000, 538.8,
+            system('Ediacaran', 635, 538.8), system('Cryogenian', 720, 635), system('Tonian', 1000, 720)),
+        erathem('Mesoproterozoic', 1600, 1000,
+            system('Stenian', 1200, 1000), system('Ectasian', 1400, 1200), system('Calymmian', 1600, 1400)),
+        erathem('Paleoproterozoic', 2500, 1600,
+            system('Statherian', 1800, 1600), system('Orosirian', 2050, 1800), system('Rhyacian', 2300, 2050), system('Siderian', 2500, 2300))),
+    eonothem('Archean', 4031, 2500,
+        erathem('Neoarchean', 2800, 2500), erathem('Mesoarchean', 3200, 2800), erathem('Paleoarchean', 3600, 3200), erathem('Eoarchean', 4031, 3600)),
+    eonothem('Hadean', 4567, 4031),
+];
+
+const flatten = (nodes: ChartNode[], parent?: string): ChronoUnit[] =>
+    nodes.flatMap(({ name, rank, base, top, children }) => [{ name, rank, ...(parent ? { parent } : {}), base, top }, ...flatten(children, name)]);
+
+export const ICS_CHART: ChronoUnit[] = flatten(CHART);
+
+const UNITS_BY_NAME = new Map(ICS_CHART.map(unit => [unit.name.toLowerCase(), unit]));
+
+// British and older spellings used in the literature.
+const SPELLING_VARIANTS: Record<string, string> = {
+    palaeogene: 'paleogene', palaeocene: 'paleocene', palaeozoic: 'paleozoic', palaeoproterozoic: 'paleoproterozoic',
+    palaeoarchean: 'paleoarchean', archaean: 'archean', neoarchaean: 'neoarchean', mesoarchaean: 'mesoarchean',
+    eoarchaean: 'eoarchean', palaeoarchaean: 'paleoarchean', viséan: 'visean',
+};
+
+export const findChronoUnit = (name: string): ChronoUnit | undefined => {
+    const key = name.trim().toLowerCase();
+    return UNITS_BY_NAME.get(SPELLING_VARIANTS[key] ?? key);
+};
+
+/** The unit and its parents up to the eonothem. */
+export const chronoAncestry = (unit: ChronoUnit): ChronoUnit[] =>
+    unit.parent ? [unit, ...chronoAncestry(findChronoUnit(unit.parent)!)] : [unit];
+
+// Epochs (time) and series (rock) share names, apart from Early/Lower and Late/Upper.
+const QUALIFIERS: Record<string, 'Lower' | 'Middle' | 'Upper'> = {
+    earliest: 'Lower', early: 'Lower', lower: 'Lower', middle: 'Middle', mid: 'Middle', late: 'Upper', latest: 'Upper', upper: 'Upper',
+};
+
+export interface ChronoMention {
+    // The mention as written, e.g. "Late Cretaceous".
+    text: string;
+    index: number;
+    // The chart unit it names: "Upper Cretaceous" for "Late Cretaceous", or "Aptian" for "early Aptian",
+    // where no chart unit subdivides the stage and the qualifier is kept alongside.
+    unit: ChronoUnit;
+    qualifier?: 'Lower' | 'Middle' | 'Upper';
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Single-word names only: qualified series ("Upper Cretaceous") are recognised from their qualifier.
+const MENTION = new RegExp(
+    '\\b(?:(earliest|early|lower|middle|mid|late|latest|upper)[\\s-]+)?'
+    + `(${[...ICS_CHART.map(unit => unit.name), ...Object.keys(SPELLING_VARIANTS)]
+        .filter(name => !name.includes(' '))
+        .map(escapeRegExp)
+        .sort((a, b) => b.length - a.length).join('|')})`
+    + '(?:\\s+(Stage|Age|Series|Epoch|Subsystem|Subperiod|System|Period|Erathem|Era|Eonothem|Eon))?\\b',
+    'gi');
+
+/**
+ * Chart unit names in the text, with their Early/Middle/Late or Lower/Middle/Upper qualifiers.
+ * In running text only capitalised names count; short labels such as fit-analysis terms can pass `anyCase`.
+ */
+export const findChronoMentions = (text: string, anyCase = false): ChronoMention[] => {
+    const mentions: ChronoMention[] = [];
+    for (const match of text.matchAll(MENTION)) {
+        // Unit names are proper nouns; lower-case matches are ordinary words or other senses.
+        if (!anyCase && !/^\p{Lu}/u.test(match[2])) continue;
+        const unit = findChronoUnit(match[2]);
+        if (!unit) continue;
+        const qualifier = match[1] ? QUALIFIERS[match[1].toLowerCase()] : undefined;
+        const qualified = qualifier && findChronoUnit(`${qualifier} ${unit.name}`);
+        // "Triassic Period" names the unit; in "of Permian age" the rank word is ordinary prose.
+        const rankWord = match[3] && !/^\p{Lu}/u.test(match[3]) ? match[3] : '';
+        mentions.push({
+            text: match[0].slice(0, match[0].length - rankWord.length).trimEnd(),
+            index: match.index!,
+            unit: qualified || unit,
+            ...(qualifier && !qualified ? { qualifier } : {}),
+        });
+    }
+    return mentions;
+};
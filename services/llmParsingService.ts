@@ -1,7 +1,10 @@
 
 
-import { GoogleGenAI, Type, GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { Type } from "@google/genai";
 import type { DocumentChunk, LlmConfig } from '../types';
+import { generateValidatedJson, LlmCallHooks } from './llmProviderService';
+import { splitIntoWindows } from './textWindows';
+import { anchorChunks } from './chunkAnchoring';
 
 export interface DocumentStructure {
     outline: { title: string; level: 1 | 2 | 3; start: number; end: number }[];
@@ -15,118 +18,84 @@ export interface DocumentStructure {
     }[];
 }
 
-const getGeminiClient = (apiKey: string) => {
-    if (!apiKey) {
-        throw new Error("Gemini API key is not provided.");
-    }
-    return new GoogleGenAI({ apiKey });
-}
-
-// Helper to make generateContent abortable, as the SDK doesn't support it natively.
-const generateContentWithAbort = async (
-    ai: GoogleGenAI,
-    params: GenerateContentParameters,
-    signal: AbortSignal
-): Promise<GenerateContentResponse> => {
-    if (signal.aborted) {
-        throw new DOMException('Aborted', 'AbortError');
-    }
-    // Race the API call with a promise that rejects on abort.
-    return new Promise(async (resolve, reject) => {
-        const onAbort = () => {
-            signal.removeEventListener('abort', onAbort);
-            reject(new DOMException('Aborted', 'AbortError'));
-        };
-        signal.addEventListener('abort', onAbort, { once: true });
-
-        try {
-            const result = await ai.models.generateContent(params);
-            signal.removeEventListener('abort', onAbort);
-            resolve(result);
-        } catch (error) {
-            signal.removeEventListener('abort', onAbort);
-            reject(error);
-        }
-    });
-};
+// Longest stretch of raw text sent in one structuring request; longer documents are structured window by window.
+export const STRUCTURING_WINDOW_CHARS = 30000;
 
 const fillTemplate = (template: string, data: Record<string, any>): string => {
     return template.replace(/\{\{(\w+)\}\}/g, (_, key) => data[key] || '');
 };
 
+const structureWindow = (
+    text: string,
+    llmConfig: LlmConfig,
+    promptTemplate: string,
+    abortSignal: AbortSignal,
+    hooks?: LlmCallHooks
+): Promise<DocumentStructure> => {
+    const prompt = fillTemplate(promptTemplate, { rawText: text });
+    return generateValidatedJson<DocumentStructure>(llmConfig, {
+        prompt,
+        responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+                outline: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            title: { type: Type.STRING },
+                            level: { type: Type.INTEGER },
+                            start: { type: Type.INTEGER },
+                            end: { type: Type.INTEGER },
+                        },
+                        required: ["title", "level", "start", "end"]
+                    }
+                },
+                chunks: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            id: { type: Type.STRING },
+                            sectionPath: { type: Type.ARRAY, items: { type: Type.STRING } },
+                            kind: { type: Type.STRING },
+                            start: { type: Type.INTEGER },
+                            end: { type: Type.INTEGER },
+                            reason: { type: Type.STRING }
+                        },
+                        required: ["id", "sectionPath", "kind", "start", "end", "reason"]
+                    }
+                }
+            },
+            required: ["outline", "chunks"]
+        }
+    }, abortSignal, hooks);
+};
+
 export const llmChunkDocument = async (
     rawText: string,
     llmConfig: LlmConfig,
     promptTemplate: string,
-    abortSignal: AbortSignal
+    abortSignal: AbortSignal,
+    hooks?: LlmCallHooks
 ): Promise<DocumentChunk[]> => {
-    if (llmConfig.provider !== 'gemini') {
-        throw new Error(`Provider "${llmConfig.provider}" is not yet supported.`);
-    }
-    const ai = getGeminiClient(llmConfig.apiKey);
-    const prompt = fillTemplate(promptTemplate, { rawText: rawText.slice(0, 30000) });
+    const windows = splitIntoWindows(rawText, STRUCTURING_WINDOW_CHARS);
 
     try {
-        const response = await generateContentWithAbort(ai, {
-            model: llmConfig.model,
-            contents: prompt,
-            config: {
-                temperature: llmConfig.temperature,
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        outline: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    title: { type: Type.STRING },
-                                    level: { type: Type.INTEGER },
-                                    start: { type: Type.INTEGER },
-                                    end: { type: Type.INTEGER },
-                                },
-                                required: ["title", "level", "start", "end"]
-                            }
-                        },
-                        chunks: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    id: { type: Type.STRING },
-                                    sectionPath: { type: Type.ARRAY, items: { type: Type.STRING } },
-                                    kind: { type: Type.STRING },
-                                    start: { type: Type.INTEGER },
-                                    end: { type: Type.INTEGER },
-                                    reason: { type: Type.STRING }
-                                },
-                                required: ["id", "sectionPath", "kind", "start", "end", "reason"]
-                            }
-                        }
-                    },
-                    required: ["outline", "chunks"]
-                }
-            }
-        }, abortSignal);
-        
-        const structure = JSON.parse(response.text) as DocumentStructure;
-        
-        return structure.chunks.map(chunk => ({
-            ...chunk,
-            content: rawText.substring(chunk.start, chunk.end),
-            selected: true,
+        const spansPerWindow = await Promise.all(windows.map(async (window, windowIndex) => {
+            const structure = await structureWindow(window.text, llmConfig, promptTemplate, abortSignal, hooks);
+            return structure.chunks.map(chunk => ({
+                id: windows.length > 1 ? `w${windowIndex + 1}-${chunk.id}` : chunk.id,
+                sectionPath: chunk.sectionPath,
+                kind: chunk.kind,
+                // Offsets are relative to the window; shift them into the full text.
+                start: window.offset + chunk.start,
+                end: window.offset + chunk.end,
+            }));
         }));
-        
+        return anchorChunks(rawText, spansPerWindow.flat());
     } catch (e) {
-        if (e instanceof Error && e.name === 'AbortError') throw e;
-        if (e instanceof Error) {
-            if (e.message.includes('429') || e.message.toLowerCase().includes('rate limit')) {
-                throw new Error("429 - Rate limit exceeded during structuring.");
-            }
-            throw e;
-        } else {
-            throw new Error("An unknown error occurred during document structuring.");
-        }
+        if (e instanceof Error) throw e;
+        throw new Error("An unknown error occurred during document structuring.");
     }
-};
\ No newline at end of file
+};
@@ -0,0 +1,141 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { Type } from '@google/genai';
+import type { LlmConfig } from '../types';
+import { LlmRequestError } from './providers/common';
+import type { LlmProviderAdapter } from './providers/common';
+import { generateContentWithAbort, generateValidatedJson, registerProvider } from './llmProviderService';
+import { ResponseValidationError } from './responseValidation';
+import { computeBackoffDelay } from './retryPolicy';
+
+const config: LlmConfig = { apiKey: '', provider: 'local', model: 'test-model', temperature: 0, retry: { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1 } };
+const request = { prompt: 'Extract.', responseSchema: { type: Type.OBJECT, properties: {} } };
+
+// A provider that fails with the given errors, in order, and then succeeds.
+const failingThenSucceeding = (...errors: unknown[]): LlmProviderAdapter => {
+  const queue = [...errors];
+  return {
+    generateStructured: vi.fn(async () => {
+      if (queue.length > 0) throw queue.shift();
+      return { text: '{}' };
+    }),
+    normalizeError: (e) => e,
+  };
+};
+
+describe('generateContentWithAbort', () => {
+
+  it('should retry rate-limited requests and report each retry', async () => {
+    const provider = failingThenSucceeding(new LlmRequestError('slow down', 429), new LlmRequestError('busy', 503));
+    registerProvider('local', provider);
+    const onRetry = vi.fn();
+
+    const response = await generateContentWithAbort(config, request, new AbortController().signal, { onRetry });
+
+    expect(response.text).toBe('{}');
+    expect(provider.generateStructured).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([attempt, max]) => [attempt, max])).toEqual([[2, 3], [3, 3]]);
+  });
+
+  it('should give up after the configured number of attempts with the provider\'s error', async () => {
+    registerProvider('local', failingThenSucceeding(...Array(3).fill(new LlmRequestError('Quota exhausted for this month', 429, 1000))));
+
+    await expect(generateContentWithAbort(config, request, new AbortController().signal))
+      .rejects.toMatchObject({ message: 'Quota exhausted for this month', status: 429, retryAfterMs: 1000 });
+  });
+
+  it('should not retry requests the server rejected as invalid', async () => {
+    const provider = failingThenSucceeding(new LlmRequestError('bad schema', 400));
+    registerProvider('local', provider);
+
+    await expect(generateContentWithAbort(config, request, new AbortController().signal)).rejects.toThrow('bad schema');
+    expect(provider.generateStructured).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop waiting for a retry when aborted', async () => {
+    registerProvider('local', failingThenSucceeding(new LlmRequestError('slow down', 429, 60000)));
+    const controller = new AbortController();
+    const pending = generateContentWithAbort(config, request, controller.signal, { onRetry: () => controller.abort() });
+
+    await expect(pending).rejects.toThrow('Aborted');
+  });
+
+  it('should pass the signal to the provider and not retry a request cancelled in flight', async () => {
+    // Mimics an SDK that wraps the fetch abort in its own error type.
+    const provider: LlmProviderAdapter = {
+      generateStructured: vi.fn((_config, _request, signal: AbortSignal) => new Promise<never>((_, reject) => {
+        signal.addEventListener('abort', () => reject(new LlmRequestError('fetch failed', 503)));
+      })),
+      normalizeError: (e) => e,
+    };
+    registerProvider('local', provider);
+    const controller = new AbortController();
+    const pending = generateContentWithAbort(config, request, controller.signal);
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(provider.generateStructured).toHaveBeenCalledTimes(1);
+  });
+
+});
+
+describe('generateValidatedJson', () => {
+
+  const entityRequest = {
+    prompt: 'Extract.',
+    responseSchema: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING } }, required: ['name'] } },
+  };
+
+  // A provider that answers with the given texts, in order, and records the prompts it saw.
+  const answering = (...texts: string[]) => {
+    const prompts: string[] = [];
+    registerProvider('local', {
+      generateStructured: async (_config, { prompt }) => { prompts.push(prompt); return { text: texts.shift() ?? '' }; },
+      normalizeError: (e) => e,
+    });
+    return prompts;
+  };
+
+  it('should repair a truncated response without asking again', async () => {
+    const prompts = answering('[{"name": "Dakota Fm"}, {"na');
+
+    await expect(generateValidatedJson(config, entityRequest, new AbortController().signal)).resolves.toEqual([{ name: 'Dakota Fm' }]);
+    expect(prompts).toHaveLength(1);
+  });
+
+  it('should re-ask the model with the validation errors', async () => {
+    const prompts = answering('[{"title": "x"}]', '[{"name": "Morrison Fm"}]');
+
+    await expect(generateValidatedJson(config, entityRequest, new AbortController().signal)).resolves.toEqual([{ name: 'Morrison Fm' }]);
+    expect(prompts[1]).toContain('$[0].name: missing required field');
+  });
+
+  it('should reject a response that is still invalid after re-asking', async () => {
+    answering('not json', '{"name": "x"}');
+
+    await expect(generateValidatedJson(config, entityRequest, new AbortController().signal)).rejects.toBeInstanceOf(ResponseValidationError);
+  });
+
+});
+
+describe('computeBackoffDelay', () => {
+
+  const policy = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 8000 };
+
+  it('should prefer the server-provided delay', () => {
+    expect(computeBackoffDelay(policy, 2, 12345)).toBe(12345);
+  });
+
+  it('should double the delay per attempt within the jitter window', () => {
+    expect(computeBackoffDelay(policy, 2, undefined, () => 1)).toBe(1000);
+    expect(computeBackoffDelay(policy, 3, undefined, () => 1)).toBe(2000);
+    expect(computeBackoffDelay(policy, 3, undefined, () => 0)).toBe(1000);
+  });
+
+  it('should cap the delay at maxDelayMs', () => {
+    expect(computeBackoffDelay(policy, 10, undefined, () => 1)).toBe(8000);
+  });
+
+});
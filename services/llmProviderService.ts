@@ -0,0 +1,133 @@
+import type { LlmConfig, LLMProvider, TokenUsage, UpstreamLLMProvider } from '../types';
+import type { LlmProviderAdapter, StructuredRequest, StructuredResponse } from './providers/common';
+import { geminiProvider } from './providers/geminiProvider';
+import { openaiProvider } from './providers/openaiProvider';
+import { anthropicProvider } from './providers/anthropicProvider';
+import { localProvider } from './providers/localProvider';
+import { createRecordReplayProvider, getSessionFixture } from './providers/mockProvider';
+import { computeBackoffDelay, DEFAULT_RETRY_POLICY, isRetryableError, sleep } from './retryPolicy';
+import { createRequestScheduler, DEFAULT_REQUEST_LIMITS } from './requestScheduler';
+import { buildCorrectionPrompt, parseStructuredResponse, ResponseValidationError } from './responseValidation';
+
+export const DEFAULT_MODELS: Record<UpstreamLLMProvider, string> = {
+    gemini: 'gemini-2.5-flash',
+    openai: 'gpt-4o-mini',
+    anthropic: 'claude-sonnet-4-5',
+    local: 'llama3.1:8b',
+};
+
+const providers: Partial<Record<LLMProvider, LlmProviderAdapter>> = {
+    gemini: geminiProvider,
+    openai: openaiProvider,
+    anthropic: anthropicProvider,
+    local: localProvider,
+    mock: createRecordReplayProvider({ getFixture: getSessionFixture, resolveUpstream: (provider) => getProvider(provider) }),
+};
+
+export const getProvider = (provider: LLMProvider): LlmProviderAdapter => {
+    const adapter = providers[provider];
+    if (!adapter) {
+        throw new Error(`Provider "${provider}" is not yet supported.`);
+    }
+    return adapter;
+};
+
+// Replaces the adapter behind a provider id, e.g. to install a scripted provider in tests.
+export const registerProvider = (provider: LLMProvider, adapter: LlmProviderAdapter) => {
+    providers[provider] = adapter;
+};
+
+// Self-hosted servers usually run without authentication, and replaying a fixture needs no key at all.
+export const providerRequiresApiKey = (config: LlmConfig): boolean => {
+    if (config.provider === 'local') return false;
+    if (config.provider === 'mock') {
+        return config.mockMode === 'record' && providerRequiresApiKey({ ...config, provider: config.mockUpstream || 'gemini' });
+    }
+    return true;
+};
+
+export const throwIfAborted = (signal: AbortSignal) => {
+    if (signal.aborted) {
+        throw new DOMException('Aborted', 'AbortError');
+    }
+};
+
+// Optional callbacks a caller can pass to follow the progress of a single LLM call.
+export interface LlmCallHooks {
+    // Requests with the same key (typically the file name) are queued together for fair scheduling.
+    queueKey?: string;
+    // Fired while the call waits for a free slot, with its 1-based position in the shared queue.
+    onQueued?: (position: number) => void;
+    // Fired when a call that had to wait is finally sent.
+    onDispatched?: () => void;
+    // Fired before waiting to retry; attempt is the 1-based number of the attempt about to start.
+    onRetry?: (attempt: number, maxAttempts: number, delayMs: number, error: Error) => void;
+    // Fired with the provider-reported token usage of each completed request.
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+// One scheduler for the whole app, so concurrent files share the same request budget.
+const scheduler = createRequestScheduler();
+
+// Entry point for every LLM call made by the extraction pipeline.
+// Calls are queued by the shared scheduler according to llmConfig.requestLimits, and
+// rate limits and transient server errors are retried according to llmConfig.retry.
+// Aborting the signal cancels the call wherever it is: queued, in flight or waiting to retry.
+export const generateContentWithAbort = async (
+    llmConfig: LlmConfig,
+    request: StructuredRequest,
+    signal: AbortSignal,
+    hooks: LlmCallHooks = {}
+): Promise<StructuredResponse> => {
+    const adapter = getProvider(llmConfig.provider);
+    const policy = llmConfig.retry || DEFAULT_RETRY_POLICY;
+    scheduler.setLimits(llmConfig.requestLimits || DEFAULT_REQUEST_LIMITS);
+
+    for (let attempt = 1; ; attempt++) {
+        throwIfAborted(signal);
+        try {
+            const response = await scheduler.run(() => adapter.generateStructured(llmConfig, request, signal), {
+                queueKey: hooks.queueKey || 'default',
+                signal,
+                onQueued: hooks.onQueued,
+                onDispatched: hooks.onDispatched,
+            });
+            if (response.usage) hooks.onUsage?.(response.usage);
+            return response;
+        } catch (e) {
+            if (e instanceof Error && e.name === 'AbortError') throw e;
+            // SDKs may wrap the fetch abort in their own error type.
+            throwIfAborted(signal);
+            const normalized = adapter.normalizeError(e);
+            if (!isRetryableError(normalized) || attempt >= policy.maxAttempts) throw normalized;
+
+            const delayMs = computeBackoffDelay(policy, attempt + 1, normalized.retryAfterMs);
+            hooks.onRetry?.(attempt + 1, policy.maxAttempts, delayMs, normalized);
+            await sleep(delayMs, signal);
+        }
+    }
+};
+
+// How many times a response that fails validation is sent back to the model with the errors.
+const MAX_CORRECTION_ATTEMPTS = 1;
+
+/**
+ * Like generateContentWithAbort, but parses the response against request.responseSchema,
+ * repairing malformed JSON where possible and otherwise re-asking the model with the
+ * validation errors. Throws ResponseValidationError if the response is still unusable.
+ */
+export const generateValidatedJson = async <T>(
+    llmConfig: LlmConfig,
+    request: StructuredRequest,
+    signal: AbortSignal,
+    hooks: LlmCallHooks = {}
+): Promise<T> => {
+    let prompt = request.prompt;
+    for (let attempt = 0; ; attempt++) {
+        const response = await generateContentWithAbort(llmConfig, { ...request, prompt }, signal, hooks);
+        const { value, issues } = parseStructuredResponse(response.text, request.responseSchema);
+        if (issues.length === 0) return value as T;
+        if (attempt >= MAX_CORRECTION_ATTEMPTS) throw new ResponseValidationError(issues);
+        prompt = buildCorrectionPrompt(request.prompt, issues);
+    }
+};
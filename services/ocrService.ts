@@ -0,0 +1,40 @@
+/// <reference types="vite/client" />
+import { createWorker, OEM } from 'tesseract.js';
+import workerPath from 'tesseract.js/dist/worker.min.js?url';
+import corePath from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import englishData from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+
+// OCR for scanned pages with Tesseract. The engine, its WebAssembly core and the English
+// language data are bundled with the app and served from its own origin, so OCR works offline.
+
+// Pages whose mean word confidence (0-100) is below this are flagged for checking.
+export const LOW_OCR_CONFIDENCE = 70;
+
+export interface OcrResult {
+    text: string;
+    confidence: number;
+}
+
+export interface OcrEngine {
+    recognize: (image: HTMLCanvasElement) => Promise<OcrResult>;
+    terminate: () => Promise<void>;
+}
+
+export const createOcrEngine = async (): Promise<OcrEngine> => {
+    const worker = await createWorker('eng', OEM.LSTM_ONLY, {
+        workerPath,
+        corePath,
+        // Tesseract fetches "<langPath>/eng.traineddata.gz", so it is given the bundled file's directory.
+        langPath: new URL('.', new URL(englishData, window.location.href)).href,
+        workerBlobURL: false,
+    });
+    return {
+        recognize: async (image) => {
+            const { data } = await worker.recognize(image);
+            return { text: data.text, confidence: data.confidence };
+        },
+        terminate: async () => {
+            await worker.terminate();
+        },
+    };
+};
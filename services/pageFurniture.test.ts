@@ -0,0 +1,60 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect } from 'vitest';
+import { stripPageFurniture, PageItems } from './pageFurniture';
+import type { PositionedText } from './pdfLayout';
+
+const PAGE_HEIGHT = 800;
+const item = (str: string, y: number, x = 50): PositionedText => ({ str, x, y, width: str.length * 5, height: 10 });
+
+const page = (n: number, body: string[]): PageItems => ({
+  height: PAGE_HEIGHT,
+  items: [
+    item(n % 2 === 0 ? 'Journal of Sedimentary Research' : 'Reef growth in the Ordovician', 780),
+    ...body.map((line, i) => item(line, 700 - i * 12)),
+    item(String(n), 30, 300),
+  ],
+});
+
+const texts = (items: PositionedText[]) => items.map(i => i.str);
+
+describe('stripPageFurniture', () => {
+
+  it('should remove alternating running headers and page numbers', () => {
+    const { pages, removed } = stripPageFurniture([1, 2, 3, 4].map(n => page(n, [`Body text of page ${n}.`])));
+
+    expect(pages.map(texts)).toEqual([1, 2, 3, 4].map(n => [`Body text of page ${n}.`]));
+    expect(removed).toEqual([
+      { reason: 'running', text: 'Reef growth in the Ordovician', pages: [1, 3] },
+      { reason: 'pageNumber', text: '1', pages: [1, 2, 3, 4] },
+      { reason: 'running', text: 'Journal of Sedimentary Research', pages: [2, 4] },
+    ]);
+  });
+
+  it('should remove download and licence notices anywhere on the page', () => {
+    const { pages, removed } = stripPageFurniture([{
+      height: PAGE_HEIGHT,
+      items: [
+        item('Downloaded from https://pubs.example.org on 3 May 2024', 400),
+        item('Reefs are described.', 388),
+        item('© 2021 The Authors. All rights reserved.', 376),
+      ],
+    }]);
+
+    expect(texts(pages[0])).toEqual(['Reefs are described.']);
+    expect(removed.map(r => r.reason)).toEqual(['boilerplate', 'boilerplate']);
+  });
+
+  it('should keep margin text that appears on a single page', () => {
+    const { pages, removed } = stripPageFurniture([
+      { height: PAGE_HEIGHT, items: [item('Title of the paper', 780), item('Body.', 700)] },
+      { height: PAGE_HEIGHT, items: [item('More body.', 700)] },
+      { height: PAGE_HEIGHT, items: [item('Even more body.', 700)] },
+    ]);
+
+    expect(texts(pages[0])).toEqual(['Title of the paper', 'Body.']);
+    expect(removed).toEqual([]);
+  });
+
+});
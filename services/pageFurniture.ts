@@ -0,0 +1,85 @@
+import type { RemovedPageText } from '../types';
+import { groupIntoLines, lineText, PositionedText } from './pdfLayout';
+
+// Removes page furniture before layout: running headers and footers repeated at the same
+// position across pages, page numbers in the margins, and download and licence notices.
+
+export interface PageItems {
+    items: PositionedText[];
+    height: number;
+}
+
+// Share of the page height, at top and bottom, in which headers, footers and page numbers are looked for.
+const MARGIN_BAND = 0.12;
+// Baselines within this many points of each other count as the same position.
+const SAME_POSITION_TOLERANCE = 6;
+// A margin line is a running header or footer when it recurs on at least this share of pages
+// (journals alternate headers between odd and even pages, so half is enough).
+const MIN_REPEAT_SHARE = 0.5;
+// Notices are single lines; longer text matching a pattern is probably prose quoting one.
+const MAX_BOILERPLATE_CHARS = 300;
+
+const PAGE_NUMBER = /^(page\s+)?\d{1,4}(\s*(of|\/)\s*\d{1,4})?$/i;
+const BOILERPLATE = [
+    /^downloaded (from|by)\b/i,
+    /\ball rights reserved\b/i,
+    /\bcreative commons\b/i,
+    /^this (article|is an open access article)\b.*\b(licen[cs]e|copyright)/i,
+    /^(©|\(c\)|copyright)\s*\d{4}\b/i,
+    /^for personal use only\b/i,
+    /\bterms and conditions of use\b/i,
+];
+
+interface MarginLine {
+    page: number;
+    y: number;
+    text: string;
+    // Digits collapsed, so "Journal of Geology 112" matches "Journal of Geology 113".
+    normalized: string;
+    items: PositionedText[];
+}
+
+const normalize = (text: string): string => text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+
+/**
+ * Drops the items of furniture lines from each page and lists what was removed, one entry
+ * per distinct line with the pages it was found on.
+ */
+export const stripPageFurniture = (pages: PageItems[]): { pages: PositionedText[][]; removed: RemovedPageText[] } => {
+    const lines: (MarginLine & { inMargin: boolean })[] = pages.flatMap((page, i) => groupIntoLines(page.items).map(items => {
+        const y = Math.max(...items.map(item => item.y));
+        const text = lineText(items).trim();
+        const inMargin = y >= page.height * (1 - MARGIN_BAND) || y <= page.height * MARGIN_BAND;
+        return { page: i + 1, y, text, normalized: normalize(text), items, inMargin };
+    }));
+
+    const marginLines = lines.filter(line => line.inMargin);
+    const minRepeats = Math.max(2, Math.ceil(pages.length * MIN_REPEAT_SHARE));
+    const isRunning = (line: MarginLine): boolean => {
+        const pagesWithLine = new Set(marginLines
+            .filter(other => other.normalized === line.normalized && Math.abs(other.y - line.y) <= SAME_POSITION_TOLERANCE)
+            .map(other => other.page));
+        return pagesWithLine.size >= minRepeats;
+    };
+
+    const removedItems = new Set<PositionedText>();
+    const removed = new Map<string, RemovedPageText>();
+    const remove = (line: MarginLine, reason: RemovedPageText['reason']) => {
+        line.items.forEach(item => removedItems.add(item));
+        const key = `${reason}:${line.normalized}`;
+        const entry = removed.get(key) || { reason, text: line.text, pages: [] };
+        if (!entry.pages.includes(line.page)) entry.pages.push(line.page);
+        removed.set(key, entry);
+    };
+
+    for (const line of lines) {
+        if (line.inMargin && PAGE_NUMBER.test(line.text)) remove(line, 'pageNumber');
+        else if (line.inMargin && isRunning(line)) remove(line, 'running');
+        else if (line.text.length <= MAX_BOILERPLATE_CHARS && BOILERPLATE.some(pattern => pattern.test(line.text))) remove(line, 'boilerplate');
+    }
+
+    return {
+        pages: pages.map(page => page.items.filter(item => !removedItems.has(item))),
+        removed: [...removed.values()],
+    };
+};
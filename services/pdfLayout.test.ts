@@ -0,0 +1,123 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect } from 'vitest';
+import { attachTables, citeEvidencePages, joinPages, layoutPage, locateTables, pageAtOffset, pageRange, PositionedText } from './pdfLayout';
+import type { DocumentChunk, PaperCore } from '../types';
+
+const PAGE_WIDTH = 600;
+const item = (str: string, x: number, y: number, width = str.length * 5): PositionedText => ({ str, x, y, width, height: 10 });
+
+describe('layoutPage', () => {
+
+  it('should rebuild lines from items and keep end-of-line hyphens', () => {
+    const text = layoutPage([
+      item('Cedar', 50, 700), item('Moun-', 82, 700),
+      item('tain', 50, 688), item('Formation', 74, 688),
+    ], PAGE_WIDTH).text;
+
+    expect(text).toBe('Cedar Moun-\ntain Formation');
+  });
+
+  it('should separate paragraphs at wide vertical gaps', () => {
+    const text = layoutPage([item('First paragraph.', 50, 700), item('Second paragraph.', 50, 660)], PAGE_WIDTH).text;
+
+    expect(text).toBe('First paragraph.\n\nSecond paragraph.');
+  });
+
+  it('should read a two-column page column by column below a full-width title', () => {
+    const items = [item('A title that spans the whole page width here', 150, 760, 300)];
+    for (let row = 0; row < 4; row++) {
+      items.push(item(`left ${row}`, 50, 700 - row * 12, 200));
+      items.push(item(`right ${row}`, 330, 700 - row * 12, 200));
+    }
+    const lines = layoutPage(items, PAGE_WIDTH).text.split(/\n+/);
+
+    expect(lines).toEqual(['A title that spans the whole page width here', 'left 0', 'left 1', 'left 2', 'left 3', 'right 0', 'right 1', 'right 2', 'right 3']);
+  });
+
+  it('should not reorder a single-column page with a few short lines', () => {
+    const text = layoutPage([item('Results', 50, 700), item('1', 400, 688), item('Body text.', 50, 676)], PAGE_WIDTH).text;
+
+    expect(text.split('\n')).toEqual(['Results', '1', 'Body text.']);
+  });
+
+});
+
+describe('tables', () => {
+
+  // Sample table with a header whose first cell spans nothing and a row with a missing value.
+  const tableItems = (): PositionedText[] => {
+    const rows = [
+      ['Sample', 'Depth (m)', 'Age (Ma)', 'Lithology'],
+      ['CM-1', '12.5', '112.4', 'mudstone'],
+      ['CM-2', '30.0', '', 'sandstone'],
+      ['CM-3', '41.2', '110.9', 'conglomerate'],
+    ];
+    const columns = [50, 170, 290, 410];
+    return [
+      item('Table 2. Detrital zircon samples.', 50, 640, 200),
+      ...rows.flatMap((cells, r) => cells.flatMap((cell, c) => cell ? [item(cell, columns[c], 620 - r * 12)] : [])),
+      item('The ages are discussed below.', 50, 560),
+    ];
+  };
+
+  it('should rebuild rows and columns with the caption and header', () => {
+    const { tables } = layoutPage(tableItems(), PAGE_WIDTH);
+
+    expect(tables).toEqual([{
+      caption: 'Table 2. Detrital zircon samples.',
+      header: ['Sample', 'Depth (m)', 'Age (Ma)', 'Lithology'],
+      rows: [
+        ['CM-1', '12.5', '112.4', 'mudstone'],
+        ['CM-2', '30.0', '', 'sandstone'],
+        ['CM-3', '41.2', '110.9', 'conglomerate'],
+      ],
+    }]);
+  });
+
+  it('should write table rows into the text with separated cells', () => {
+    const { text } = layoutPage(tableItems(), PAGE_WIDTH);
+
+    expect(text).toContain('Sample | Depth (m) | Age (Ma) | Lithology\nCM-1 | 12.5 | 112.4 | mudstone\nCM-2 | 30.0 | | sandstone');
+  });
+
+  it('should locate tables in the text and attach them to table and caption chunks only', () => {
+    const { text, tables } = layoutPage(tableItems(), PAGE_WIDTH);
+    const located = locateTables(text, tables, 100);
+    const start = located[0].start - 100;
+    const chunk = (kind: DocumentChunk['kind']): DocumentChunk =>
+      ({ id: kind, sectionPath: ['Results'], kind, content: '', selected: true, start: located[0].start - 40, end: located[0].end });
+
+    expect(text.slice(start, located[0].end - 100).startsWith('Sample | Depth (m)')).toBe(true);
+    expect(attachTables([chunk('caption'), chunk('body')], located).map(c => [c.kind, c.table?.header[0]]))
+      .toEqual([['table', 'Sample'], ['body', undefined]]);
+  });
+
+});
+
+describe('page map', () => {
+
+  it('should map offsets to pages', () => {
+    const paged = joinPages(['Page one.', 'Page two.', 'Page three.']);
+
+    expect(paged.text.slice(paged.pageOffsets[1], paged.pageOffsets[1] + 9)).toBe('Page two.');
+    expect(pageAtOffset(paged.pageOffsets, 0)).toBe(1);
+    expect(pageAtOffset(paged.pageOffsets, paged.text.indexOf('three'))).toBe(3);
+    expect(pageRange(paged.pageOffsets, 3, paged.pageOffsets[2])).toEqual([1, 2]);
+  });
+
+  it('should place unplaced evidence quotes', () => {
+    const paged = joinPages(['Intro text.', 'Zircon ages cluster at 450 Ma.']);
+    const core = { evidence_spans: [
+      { quote: 'zircon ages cluster', page: null, offset: null },
+      { quote: 'not in the text', page: null, offset: null },
+    ] } as unknown as PaperCore;
+
+    const cited = citeEvidencePages(core, paged).evidence_spans;
+
+    expect(cited[0]).toEqual({ quote: 'zircon ages cluster', page: 2, offset: [13, 32] });
+    expect(cited[1]).toEqual(core.evidence_spans[1]);
+  });
+
+});
@@ -0,0 +1,330 @@
+import type { DocumentChunk, PaperCore, TableData } from '../types';
+
+// Rebuilds readable text from positioned pdf.js text items: items are grouped into lines by
+// baseline, tables are rebuilt into rows and columns, two-column pages are read column by
+// column, and wide vertical gaps become paragraph breaks. Kept free of pdf.js so it can be
+// tested on plain item lists.
+
+export interface PositionedText {
+    str: string;
+    // Left edge and baseline in PDF user space (y grows upwards).
+    x: number;
+    y: number;
+    width: number;
+    // Font size; used as the line height.
+    height: number;
+}
+
+interface Segment {
+    items: PositionedText[];
+    y: number;
+    x0: number;
+    x1: number;
+    height: number;
+}
+
+// Items whose baselines differ by less than this share of the font size are on the same line.
+const SAME_LINE_TOLERANCE = 0.5;
+// A horizontal gap wider than this share of the font size separates two words.
+const WORD_GAP = 0.15;
+// A gap between a line's items at least this wide, centred in the middle band of the page, is a column gutter.
+const MIN_GUTTER_WIDTH = 0.02;
+const GUTTER_BAND: [number, number] = [0.35, 0.65];
+// A page is read as two columns only when both columns hold at least this many lines.
+const MIN_COLUMN_LINES = 3;
+// Baselines further apart than this multiple of the font size start a new paragraph.
+const PARAGRAPH_GAP = 1.8;
+// A horizontal gap of at least this multiple of the font size separates two table cells.
+const CELL_GAP = 1.0;
+// Runs of cell-separated lines smaller than this are not read as tables.
+const MIN_TABLE_ROWS = 3;
+const MIN_TABLE_COLUMNS = 3;
+// Table rows further apart than this multiple of the font size belong to different tables.
+const MAX_ROW_GAP = 2.5;
+const TABLE_CAPTION = /^table\s*\d+/i;
+
+const toSegment = (items: PositionedText[]): Segment => ({
+    items,
+    y: Math.max(...items.map(item => item.y)),
+    x0: Math.min(...items.map(item => item.x)),
+    x1: Math.max(...items.map(item => item.x + item.width)),
+    height: Math.max(...items.map(item => item.height)),
+});
+
+// Groups items into visual lines, top to bottom, each sorted left to right.
+export const groupIntoLines = (items: PositionedText[]): PositionedText[][] => {
+    const sorted = items
+        .filter(item => item.str.trim().length > 0)
+        .sort((a, b) => b.y - a.y || a.x - b.x);
+    const lines: { y: number; items: PositionedText[] }[] = [];
+    for (const item of sorted) {
+        const line = lines[lines.length - 1];
+        if (line && Math.abs(line.y - item.y) <= Math.max(1, item.height * SAME_LINE_TOLERANCE)) line.items.push(item);
+        else lines.push({ y: item.y, items: [item] });
+    }
+    return lines.map(line => line.items.sort((a, b) => a.x - b.x));
+};
+
+// Splits a line at the column gutter, if it has one.
+const splitAtGutter = (items: PositionedText[], pageWidth: number): PositionedText[][] => {
+    for (let i = 1; i < items.length; i++) {
+        const gapStart = items[i - 1].x + items[i - 1].width;
+        const gapEnd = items[i].x;
+        const middle = (gapStart + gapEnd) / 2;
+        if (gapEnd - gapStart >= pageWidth * MIN_GUTTER_WIDTH && middle >= pageWidth * GUTTER_BAND[0] && middle <= pageWidth * GUTTER_BAND[1]) {
+            return [items.slice(0, i), items.slice(i)];
+        }
+    }
+    return [items];
+};
+
+// Joins a line's items, adding a space wherever a visible gap separates two words.
+export const lineText = (items: PositionedText[]): string =>
+    items.reduce((text, item, i) => {
+        if (i === 0) return item.str;
+        const previous = items[i - 1];
+        const gap = item.x - (previous.x + previous.width);
+        const needsSpace = gap > item.height * WORD_GAP && !/\s$/.test(text) && !/^\s/.test(item.str);
+        return text + (needsSpace ? ' ' : '') + item.str;
+    }, '');
+
+// --- Tables ---
+
+interface Cell {
+    text: string;
+    x0: number;
+    x1: number;
+}
+
+interface TableRun {
+    table: TableData;
+    // Indexes of the table's first and last line.
+    first: number;
+    last: number;
+    x0: number;
+    x1: number;
+}
+
+// Splits a line into cells wherever a gap wider than a word space separates its items.
+const toCells = (line: PositionedText[]): Cell[] => {
+    const groups: PositionedText[][] = [];
+    line.forEach((item, i) => {
+        const previous = line[i - 1];
+        if (previous && item.x - (previous.x + previous.width) < item.height * CELL_GAP) groups[groups.length - 1].push(item);
+        else groups.push([item]);
+    });
+    return groups.map(items => ({
+        text: lineText(items).replace(/\s+/g, ' ').trim(),
+        x0: items[0].x,
+        x1: Math.max(...items.map(item => item.x + item.width)),
+    }));
+};
+
+// Column extents are the stretches of the x-axis covered by at least one cell.
+const projectColumns = (cells: Cell[]): [number, number][] => {
+    const columns: [number, number][] = [];
+    [...cells].sort((a, b) => a.x0 - b.x0).forEach(cell => {
+        const last = columns[columns.length - 1];
+        if (last && cell.x0 <= last[1]) last[1] = Math.max(last[1], cell.x1);
+        else columns.push([cell.x0, cell.x1]);
+    });
+    return columns;
+};
+
+const columnOf = (cell: Cell, columns: [number, number][]): number => {
+    const overlap = (column: [number, number]) => Math.min(cell.x1, column[1]) - Math.max(cell.x0, column[0]);
+    const distance = (column: [number, number]) => Math.abs((cell.x0 + cell.x1) / 2 - (column[0] + column[1]) / 2);
+    return columns.reduce((best, column, i) =>
+        overlap(column) > overlap(columns[best]) || (overlap(column) <= 0 && overlap(columns[best]) <= 0 && distance(column) < distance(columns[best])) ? i : best, 0);
+};
+
+// A run of lines is a table when most rows have several cells and the cells line up in columns.
+// The first row is the header; it is left out of the column projection because header cells
+// often span several columns.
+const buildTable = (rows: Cell[][]): TableData | null => {
+    if (rows.length < MIN_TABLE_ROWS) return null;
+    if (rows.filter(cells => cells.length >= MIN_TABLE_COLUMNS).length * 2 < rows.length) return null;
+    const columns = projectColumns(rows.slice(1).flat());
+    if (columns.length < MIN_TABLE_COLUMNS) return null;
+    const toRow = (cells: Cell[]): string[] => {
+        const row: string[] = columns.map(() => '');
+        cells.forEach(cell => {
+            const column = columnOf(cell, columns);
+            row[column] = row[column] ? `${row[column]} ${cell.text}` : cell.text;
+        });
+        return row;
+    };
+    return { header: toRow(rows[0]), rows: rows.slice(1).map(toRow) };
+};
+
+const findTables = (lines: PositionedText[][]): TableRun[] => {
+    const rows = lines.map(line => ({ line, cells: toCells(line), segment: toSegment(line) }));
+    const tables: TableRun[] = [];
+    let first = 0;
+    while (first < rows.length) {
+        if (rows[first].cells.length < 2) {
+            first++;
+            continue;
+        }
+        let last = first;
+        while (last + 1 < rows.length && rows[last + 1].cells.length >= 2
+            && rows[last].segment.y - rows[last + 1].segment.y <= rows[last].segment.height * MAX_ROW_GAP) last++;
+        const run = rows.slice(first, last + 1);
+        const table = buildTable(run.map(row => row.cells));
+        if (table) {
+            const caption = first > 0 ? lineText(lines[first - 1]).trim() : '';
+            tables.push({
+                table: TABLE_CAPTION.test(caption) ? { caption, ...table } : table,
+                first,
+                last,
+                x0: Math.min(...run.map(row => row.segment.x0)),
+                x1: Math.max(...run.map(row => row.segment.x1)),
+            });
+        }
+        first = last + 1;
+    }
+    return tables;
+};
+
+// The lines a table is written as in the document text: header first, cells separated by " | ".
+export const renderTableLines = (table: TableData): string[] =>
+    [table.header, ...table.rows].map(cells => cells.join(' | ').replace(/\s+/g, ' ').trim());
+
+// Replaces each table's lines with one synthetic item per row, spanning the table's width,
+// so the rows keep their place in the reading order.
+const withTableRows = (lines: PositionedText[][], tables: TableRun[]): PositionedText[][] =>
+    lines.map((line, i) => {
+        const run = tables.find(t => i >= t.first && i <= t.last);
+        if (!run) return line;
+        const segment = toSegment(line);
+        const str = renderTableLines(run.table)[i - run.first];
+        return [{ str, x: run.x0, y: segment.y, width: run.x1 - run.x0, height: segment.height }];
+    });
+
+// Orders segments for reading: on two-column pages, each run of column lines between
+// full-width lines (titles, headings, footers) is read left column first.
+const readingOrder = (lines: PositionedText[][], pageWidth: number): Segment[] => {
+    const center = pageWidth / 2;
+    const segments = lines.flatMap(line => splitAtGutter(line, pageWidth).map(toSegment));
+    const left = segments.filter(s => s.x1 <= center);
+    const right = segments.filter(s => s.x0 >= center);
+    if (left.length < MIN_COLUMN_LINES || right.length < MIN_COLUMN_LINES) return lines.map(toSegment);
+
+    const ordered: Segment[] = [];
+    let band: { left: Segment[]; right: Segment[] } = { left: [], right: [] };
+    const flush = () => {
+        ordered.push(...band.left, ...band.right);
+        band = { left: [], right: [] };
+    };
+    for (const segment of segments) {
+        if (segment.x1 <= center) band.left.push(segment);
+        else if (segment.x0 >= center) band.right.push(segment);
+        else {
+            flush();
+            ordered.push(segment);
+        }
+    }
+    flush();
+    return ordered;
+};
+
+/**
+ * Lays out one page's text items as lines separated by newlines, with a blank line between
+ * paragraphs, and returns the tables found on the page. Table rows appear in the text as
+ * their cells separated by " | ".
+ */
+export const layoutPage = (items: PositionedText[], pageWidth: number): { text: string; tables: TableData[] } => {
+    const lines = groupIntoLines(items);
+    const tables = findTables(lines);
+    const segments = readingOrder(withTableRows(lines, tables), pageWidth);
+    const text = segments.map((segment, i) => {
+        if (i === 0) return lineText(segment.items);
+        // Moving up the page means a new column, which usually continues the paragraph.
+        const drop = segments[i - 1].y - segment.y;
+        const breakBefore = drop > Math.max(segment.height, segments[i - 1].height) * PARAGRAPH_GAP ? '\n\n' : '\n';
+        return breakBefore + lineText(segment.items);
+    }).join('');
+    return { text, tables: tables.map(run => run.table) };
+};
+
+// --- Page map ---
+
+export interface PagedText {
+    text: string;
+    // Offset in `text` at which each page starts; index 0 is page 1.
+    pageOffsets: number[];
+}
+
+export const joinPages = (pages: string[]): PagedText => {
+    const pageOffsets: number[] = [];
+    let offset = 0;
+    pages.forEach((page, i) => {
+        pageOffsets.push(offset);
+        offset += page.length + (i < pages.length - 1 ? 2 : 0);
+    });
+    return { text: pages.join('\n\n'), pageOffsets };
+};
+
+// 1-based number of the page containing the character at `offset`.
+export const pageAtOffset = (pageOffsets: number[], offset: number): number => {
+    let page = 1;
+    pageOffsets.forEach((start, i) => { if (start <= offset) page = i + 1; });
+    return page;
+};
+
+export const pageRange = (pageOffsets: number[], start: number, end: number): [number, number] =>
+    [pageAtOffset(pageOffsets, start), pageAtOffset(pageOffsets, Math.max(start, end - 1))];
+
+export interface LocatedTable {
+    table: TableData;
+    // Offsets of the table's rows in the document text.
+    start: number;
+    end: number;
+}
+
+// Finds each table's rows in the text of its page; `pageStart` is the page's offset in the document.
+export const locateTables = (pageText: string, tables: TableData[], pageStart: number): LocatedTable[] => {
+    let cursor = 0;
+    return tables.flatMap(table => {
+        const lines = renderTableLines(table);
+        const start = pageText.indexOf(lines[0], cursor);
+        const lastLine = start === -1 ? -1 : pageText.indexOf(lines[lines.length - 1], start);
+        if (lastLine === -1) return [];
+        cursor = lastLine + lines[lines.length - 1].length;
+        return [{ table, start: pageStart + start, end: pageStart + cursor }];
+    });
+};
+
+/**
+ * Gives table and caption chunks the rebuilt table they contain, so extraction can read its
+ * rows and columns. A table written into a body chunk stays part of that chunk's text.
+ */
+export const attachTables = (chunks: DocumentChunk[], tables: LocatedTable[]): DocumentChunk[] =>
+    chunks.map(chunk => {
+        if ((chunk.kind !== 'table' && chunk.kind !== 'caption') || chunk.start === undefined || chunk.end === undefined) return chunk;
+        const overlap = (t: LocatedTable) => Math.min(chunk.end!, t.end) - Math.max(chunk.start!, t.start);
+        const located = tables.find(t => overlap(t) * 2 > t.end - t.start);
+        return located ? { ...chunk, kind: 'table', table: located.table } : chunk;
+    });
+
+/**
+ * Fills in the page and offset of paper core evidence quotes the model left unplaced, by
+ * finding each quote in the document text.
+ */
+export const citeEvidencePages = (core: PaperCore, paged: PagedText): PaperCore => {
+    const lowerText = paged.text.toLowerCase();
+    return {
+        ...core,
+        evidence_spans: core.evidence_spans.map(span => {
+            if (span.page !== null && span.offset !== null) return span;
+            const quote = span.quote.trim();
+            const start = quote ? lowerText.indexOf(quote.toLowerCase()) : -1;
+            if (start === -1) return span;
+            return {
+                ...span,
+                page: span.page ?? pageAtOffset(paged.pageOffsets, start),
+                offset: span.offset ?? [start, start + quote.length],
+            };
+        }),
+    };
+};
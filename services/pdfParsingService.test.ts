@@ -0,0 +1,83 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parsePdf } from './pdfParsingService';
+
+const { ocrEngine, fakePdf } = vi.hoisted(() => {
+  const textItem = (str: string, x: number, y: number) => ({ str, transform: [10, 0, 0, 10, x, y], width: str.length * 5, height: 10 });
+  const page = (items: ReturnType<typeof textItem>[]) => ({
+    getTextContent: async () => ({ items }),
+    getViewport: ({ scale }: { scale: number }) => ({ width: 600 * scale, height: 800 * scale }),
+    render: () => ({ promise: Promise.resolve() }),
+  });
+  const pages = [
+    page([textItem('The Dakota Formation overlies the Cedar Mountain Formation.', 72, 700)]),
+    // A scanned page: only a stray page number in its text layer.
+    page([textItem('2', 300, 40)]),
+  ];
+  return {
+    ocrEngine: {
+      recognize: vi.fn(async () => ({ text: 'Scanned   text from the Mancos Shale.', confidence: 62.4 })),
+      terminate: vi.fn(async () => {}),
+    },
+    fakePdf: {
+      numPages: pages.length,
+      getMetadata: async () => ({ info: { Title: 'Dakota' } }),
+      getPage: async (i: number) => pages[i - 1],
+    },
+  };
+});
+
+vi.mock('pdfjs-dist/build/pdf.mjs', () => ({
+  GlobalWorkerOptions: {},
+  getDocument: () => ({ promise: Promise.resolve(fakePdf) }),
+}));
+
+vi.mock('./ocrService', () => ({
+  LOW_OCR_CONFIDENCE: 70,
+  createOcrEngine: async () => ocrEngine,
+}));
+
+const pdfFile = () => new File([new Uint8Array([37, 80, 68, 70])], 'scan.pdf', { type: 'application/pdf' });
+
+describe('parsePdf', () => {
+
+  beforeEach(() => {
+    ocrEngine.recognize.mockClear();
+    ocrEngine.terminate.mockClear();
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+  });
+
+  it('should OCR pages without a text layer and flag low confidence', async () => {
+    const onOcrPage = vi.fn();
+
+    const parsed = await parsePdf(pdfFile(), new AbortController().signal, onOcrPage);
+
+    expect(onOcrPage.mock.calls).toEqual([[2, 2]]);
+    expect(ocrEngine.recognize).toHaveBeenCalledTimes(1);
+    expect(ocrEngine.terminate).toHaveBeenCalledTimes(1);
+    expect(parsed.ocrPages).toEqual([{ page: 2, confidence: 62, low: true }]);
+    expect(parsed.text).toContain('The Dakota Formation overlies the Cedar Mountain Formation.');
+    expect(parsed.text).toContain('Scanned text from the Mancos Shale.');
+    expect(parsed.info).toEqual({ Title: 'Dakota' });
+  });
+
+  it('should stop before recognising a page once cancelled', async () => {
+    const controller = new AbortController();
+
+    const parsing = parsePdf(pdfFile(), controller.signal, () => controller.abort());
+
+    await expect(parsing).rejects.toMatchObject({ name: 'AbortError' });
+    expect(ocrEngine.recognize).not.toHaveBeenCalled();
+    expect(ocrEngine.terminate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should release the OCR engine when recognition fails', async () => {
+    ocrEngine.recognize.mockRejectedValueOnce(new Error('OCR failed'));
+
+    await expect(parsePdf(pdfFile(), new AbortController().signal)).rejects.toThrow('OCR failed');
+    expect(ocrEngine.terminate).toHaveBeenCalledTimes(1);
+  });
+
+});
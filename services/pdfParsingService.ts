@@ -1,31 +1,109 @@
-
-
+/// <reference types="vite/client" />
 import * as pdfjs from 'pdfjs-dist/build/pdf.mjs';
+import pdfWorkerPath from 'pdfjs-dist/build/pdf.worker.mjs?url';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { OcrPageConfidence, RemovedPageText } from '../types';
+import { joinPages, layoutPage, LocatedTable, locateTables, PagedText, PositionedText } from './pdfLayout';
+import { PageItems, stripPageFurniture } from './pageFurniture';
+import { createOcrEngine, LOW_OCR_CONFIDENCE, OcrEngine } from './ocrService';
+import { throwIfAborted } from './llmProviderService';
 
+// The worker is bundled with the app, like the OCR engine, so parsing works offline.
 // @ts-ignore
-pdfjs.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@${pdfjs.version}/build/pdf.worker.mjs`;
+pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerPath;
+
+// Pages with fewer characters than this in their text layer are treated as scanned images.
+const MIN_TEXT_LAYER_CHARS = 20;
+// Scanned pages are rendered at this multiple of 72 dpi for OCR.
+const OCR_RENDER_SCALE = 2.5;
 
 interface TextItem {
     str: string;
+    // [scaleX, skewY, skewX, scaleY, x, y]
+    transform: number[];
+    width: number;
+    height: number;
 }
 
+// Collapses runs of spaces but keeps line and paragraph breaks, which the heuristic structurer relies on.
 const cleanText = (text: string): string => {
-    return text.replace(/\s+/g, ' ').trim();
+    return text
+        .replace(/[^\S\n]+/g, ' ')
+        .replace(/ ?\n ?/g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
 };
 
+const toPositioned = (item: TextItem): PositionedText => ({
+    str: item.str,
+    x: item.transform[4],
+    y: item.transform[5],
+    width: item.width,
+    // Some producers report a zero height; the vertical scale is the font size.
+    height: item.height || Math.abs(item.transform[3]),
+});
+
+export interface ParsedPdf extends PagedText {
+    removed: RemovedPageText[];
+    tables: LocatedTable[];
+    // Pages read by OCR because they had no text layer.
+    ocrPages: OcrPageConfidence[];
+    // The document information dictionary (Title, Author, Subject, ...).
+    info: Record<string, unknown>;
+}
 
-export const parsePdfToText = async (file: File): Promise<string> => {
+const renderPage = async (page: PDFPageProxy): Promise<HTMLCanvasElement> => {
+    const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+    return canvas;
+};
+
+// Text of every page in reading order without headers, footers and page numbers, with the
+// offset at which each page starts. Pages without a text layer are rendered and OCRed;
+// `onOcrPage` is told before each one. Aborting `signal` stops before the next page.
+export const parsePdf = async (file: File, signal: AbortSignal, onOcrPage?: (page: number, pageCount: number) => void): Promise<ParsedPdf> => {
     const fileBuffer = await file.arrayBuffer();
     const typedArray = new Uint8Array(fileBuffer);
     const pdf = await pdfjs.getDocument(typedArray).promise;
-    
-    const allTextItems: string[] = [];
+    // A damaged info dictionary only costs the metadata it would have given.
+    const info = await pdf.getMetadata().then(metadata => (metadata.info || {}) as Record<string, unknown>, () => ({}));
 
-    for (let i = 1; i <= pdf.numPages; i++) {
-        const page = await pdf.getPage(i);
-        const textContent = await page.getTextContent();
-        allTextItems.push(...(textContent.items as TextItem[]).map(item => item.str));
+    const pages: (PageItems & { width: number; ocrText?: string })[] = [];
+    const ocrPages: OcrPageConfidence[] = [];
+    let ocr: OcrEngine | null = null;
+
+    try {
+        for (let i = 1; i <= pdf.numPages; i++) {
+            throwIfAborted(signal);
+            const page = await pdf.getPage(i);
+            const textContent = await page.getTextContent();
+            const viewport = page.getViewport({ scale: 1 });
+            // Marked-content entries carry no text and have no 'str'.
+            const items = (textContent.items as TextItem[]).filter(item => 'str' in item).map(toPositioned);
+            if (items.map(item => item.str).join('').replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARS) {
+                pages.push({ items, width: viewport.width, height: viewport.height });
+                continue;
+            }
+            onOcrPage?.(i, pdf.numPages);
+            ocr = ocr || await createOcrEngine();
+            const image = await renderPage(page);
+            throwIfAborted(signal);
+            const result = await ocr.recognize(image);
+            ocrPages.push({ page: i, confidence: Math.round(result.confidence), low: result.confidence < LOW_OCR_CONFIDENCE });
+            pages.push({ items: [], width: viewport.width, height: viewport.height, ocrText: result.text });
+        }
+    } finally {
+        await ocr?.terminate();
     }
-    
-    return cleanText(allTextItems.join(' '));
+
+    const stripped = stripPageFurniture(pages);
+    const layouts = stripped.pages.map((items, i) => layoutPage(items, pages[i].width));
+    const texts = layouts.map((layout, i) => cleanText(pages[i].ocrText ?? layout.text));
+    const paged = joinPages(texts);
+    const tables = layouts.flatMap((layout, i) =>
+        locateTables(texts[i], layout.tables.map(table => ({ ...table, page: i + 1 })), paged.pageOffsets[i]));
+    return { ...paged, removed: stripped.removed, tables, ocrPages, info };
 };
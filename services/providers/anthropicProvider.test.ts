@@ -0,0 +1,68 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Type } from '@google/genai';
+import type { LlmConfig } from '../../types';
+import { LlmRequestError } from './common';
+import { anthropicProvider } from './anthropicProvider';
+
+const config: LlmConfig = { apiKey: 'sk-ant-test', provider: 'anthropic', model: 'claude-sonnet-4-5', temperature: 0.2 };
+const names = { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING } }, required: ['name'] } };
+const signal = new AbortController().signal;
+
+const stubFetch = (response: Response) => {
+  const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => response);
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+const message = (content: unknown[], extra: Record<string, unknown> = {}) => new Response(JSON.stringify({ content, stop_reason: 'tool_use', ...extra }));
+
+describe('anthropicProvider', () => {
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should force the result tool and unwrap root arrays from its input', async () => {
+    const fetchMock = stubFetch(message(
+      [{ type: 'text', text: 'Recording the units.' }, { type: 'tool_use', name: 'record_extraction_result', input: { items: [{ name: 'Dakota' }] } }],
+      { usage: { input_tokens: 200, output_tokens: 40 } },
+    ));
+
+    const response = await anthropicProvider.generateStructured(config, { prompt: 'List the units.', responseSchema: names }, signal);
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body as string);
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ 'x-api-key': 'sk-ant-test', 'anthropic-version': '2023-06-01' });
+    expect(body.tool_choice).toEqual({ type: 'tool', name: 'record_extraction_result' });
+    expect(body.tools).toHaveLength(1);
+    expect(body.tools[0]).toMatchObject({ name: 'record_extraction_result', input_schema: { type: 'object', required: ['items'] } });
+    expect(body).toMatchObject({ model: 'claude-sonnet-4-5', temperature: 0.2, messages: [{ role: 'user', content: 'List the units.' }] });
+    expect(JSON.parse(response.text)).toEqual([{ name: 'Dakota' }]);
+    expect(response.usage).toEqual({ inputTokens: 200, outputTokens: 40 });
+  });
+
+  it('should fail when the reply has no result tool call', async () => {
+    stubFetch(message([{ type: 'text', text: 'I could not find any units.' }], { stop_reason: 'end_turn' }));
+
+    const request = anthropicProvider.generateStructured(config, { prompt: 'List the units.', responseSchema: names }, signal);
+
+    await expect(request).rejects.toBeInstanceOf(LlmRequestError);
+    await expect(request).rejects.toThrow('did not contain a record_extraction_result tool call (stop_reason: end_turn)');
+  });
+
+  it('should treat overloaded responses as rate limits', async () => {
+    stubFetch(new Response(JSON.stringify({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }), { status: 529, headers: { 'Retry-After': '5' } }));
+
+    const error = await anthropicProvider.generateStructured(config, { prompt: 'List the units.', responseSchema: names }, signal).catch(e => e);
+
+    expect(error).toMatchObject({ status: 529, retryAfterMs: 5000 });
+    expect(anthropicProvider.normalizeError(error)).toMatchObject({ status: 429, retryAfterMs: 5000, message: 'Anthropic API error 529: Overloaded' });
+  });
+
+  it('should pass other errors through unchanged', () => {
+    const error = new LlmRequestError('Anthropic API error 400: bad request', 400);
+    expect(anthropicProvider.normalizeError(error)).toBe(error);
+  });
+
+});
@@ -0,0 +1,60 @@
+import type { LlmProviderAdapter } from './common';
+import { errorFromResponse, LlmRequestError, toJsonSchema, unwrapRootArray, wrapRootArray } from './common';
+
+const ANTHROPIC_MESSAGES_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+const MAX_OUTPUT_TOKENS = 8192;
+const RESULT_TOOL_NAME = 'record_extraction_result';
+
+// Anthropic Messages API. Structured output is obtained by forcing a single tool call
+// whose input_schema mirrors the Gemini responseSchema; the tool input is the result.
+export const anthropicProvider: LlmProviderAdapter = {
+    generateStructured: async (config, request, signal) => {
+        if (!config.apiKey) {
+            throw new Error("Anthropic API key is not provided.");
+        }
+        const { schema, wrapped } = wrapRootArray(request.responseSchema);
+        const response = await fetch(ANTHROPIC_MESSAGES_URL, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'x-api-key': config.apiKey,
+                'anthropic-version': ANTHROPIC_VERSION,
+                'anthropic-dangerous-direct-browser-access': 'true',
+            },
+            body: JSON.stringify({
+                model: config.model,
+                max_tokens: MAX_OUTPUT_TOKENS,
+                temperature: config.temperature,
+                messages: [{ role: 'user', content: request.prompt }],
+                tools: [{
+                    name: RESULT_TOOL_NAME,
+                    description: 'Record the extraction result as structured JSON.',
+                    input_schema: toJsonSchema(schema),
+                }],
+                tool_choice: { type: 'tool', name: RESULT_TOOL_NAME },
+            }),
+            signal,
+        });
+        if (!response.ok) {
+            throw await errorFromResponse(response, 'Anthropic');
+        }
+
+        const body = await response.json();
+        const toolUse = (body.content || []).find((block: any) => block.type === 'tool_use' && block.name === RESULT_TOOL_NAME);
+        if (!toolUse) {
+            throw new LlmRequestError(`Anthropic response did not contain a ${RESULT_TOOL_NAME} tool call (stop_reason: ${body.stop_reason}).`);
+        }
+        const usage = body.usage ? { inputTokens: body.usage.input_tokens ?? 0, outputTokens: body.usage.output_tokens ?? 0 } : undefined;
+        return { text: unwrapRootArray(JSON.stringify(toolUse.input), wrapped), usage };
+    },
+
+    // 529 "overloaded_error" is transient capacity pressure; treat it like a 429 so it
+    // follows the same rate-limit path as the other providers.
+    normalizeError: (error) => {
+        if (error instanceof LlmRequestError && error.status === 529) {
+            return new LlmRequestError(error.message, 429, error.retryAfterMs);
+        }
+        return error;
+    },
+};
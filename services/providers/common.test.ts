@@ -0,0 +1,100 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Type } from '@google/genai';
+import { errorFromResponse, isStrictCompatible, LlmRequestError, parseRetryAfter, toJsonSchema, unwrapRootArray, wrapRootArray } from './common';
+
+const entityList = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      name: { type: Type.STRING },
+      type: { type: Type.STRING, enum: ['Formation', 'Member'] },
+      confidence: { type: Type.NUMBER, nullable: true },
+    },
+    required: ['name', 'type', 'confidence'],
+  },
+};
+
+describe('toJsonSchema', () => {
+
+  it('should close objects and turn nullable fields into null unions', () => {
+    expect(toJsonSchema(entityList)).toEqual({
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          type: { type: 'string', enum: ['Formation', 'Member'] },
+          confidence: { type: ['number', 'null'] },
+        },
+        required: ['name', 'type', 'confidence'],
+        additionalProperties: false,
+      },
+    });
+  });
+
+});
+
+describe('isStrictCompatible', () => {
+
+  it('should require every nested property to be listed as required', () => {
+    expect(isStrictCompatible(entityList)).toBe(true);
+    expect(isStrictCompatible({ ...entityList, items: { ...entityList.items, required: ['name', 'type'] } })).toBe(false);
+  });
+
+});
+
+describe('wrapRootArray', () => {
+
+  it('should wrap root arrays in an object and unwrap the response again', () => {
+    const { schema, wrapped } = wrapRootArray(entityList);
+    expect(wrapped).toBe(true);
+    expect(schema).toMatchObject({ type: Type.OBJECT, properties: { items: entityList }, required: ['items'] });
+    expect(JSON.parse(unwrapRootArray('{"items":[{"name":"Dakota"}]}', wrapped))).toEqual([{ name: 'Dakota' }]);
+  });
+
+  it('should leave object schemas and unparseable text alone', () => {
+    expect(wrapRootArray(entityList.items)).toEqual({ schema: entityList.items, wrapped: false });
+    expect(unwrapRootArray('{"items":', true)).toBe('{"items":');
+  });
+
+});
+
+describe('parseRetryAfter', () => {
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should read seconds and HTTP dates', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-05-01T12:00:00Z'));
+    expect(parseRetryAfter('7')).toBe(7000);
+    expect(parseRetryAfter('Wed, 01 May 2024 12:00:30 GMT')).toBe(30000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+
+});
+
+describe('errorFromResponse', () => {
+
+  it('should keep the status, the vendor message and the Retry-After delay', async () => {
+    const response = new Response(JSON.stringify({ error: { message: 'Rate limit reached' } }), { status: 429, headers: { 'Retry-After': '3' } });
+
+    const error = await errorFromResponse(response, 'OpenAI');
+
+    expect(error).toBeInstanceOf(LlmRequestError);
+    expect(error).toMatchObject({ status: 429, retryAfterMs: 3000, message: 'OpenAI API error 429: Rate limit reached' });
+  });
+
+  it('should fall back to the status text when the body is not JSON', async () => {
+    const error = await errorFromResponse(new Response('<html>', { status: 502, statusText: 'Bad Gateway' }), 'OpenAI');
+
+    expect(error).toMatchObject({ status: 502, retryAfterMs: undefined, message: 'OpenAI API error 502: Bad Gateway' });
+  });
+
+});
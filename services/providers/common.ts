@@ -0,0 +1,126 @@
+import { Type } from "@google/genai";
+import type { Schema as ResponseSchema } from "@google/genai";
+import type { LlmConfig, TokenUsage } from '../../types';
+
+// A single structured-JSON generation call. The responseSchema uses the Gemini
+// schema dialect; adapters for other vendors translate it as needed.
+export interface StructuredRequest {
+    prompt: string;
+    responseSchema: ResponseSchema;
+}
+
+export interface StructuredResponse {
+    // Raw JSON text as produced by the model (root arrays are unwrapped by the adapter).
+    text: string;
+    // Billed tokens, when the vendor reports them.
+    usage?: TokenUsage;
+}
+
+export interface LlmProviderAdapter {
+    generateStructured: (config: LlmConfig, request: StructuredRequest, signal: AbortSignal) => Promise<StructuredResponse>;
+    // Maps vendor-specific failures onto LlmRequestError so callers can treat them uniformly.
+    normalizeError: (error: unknown) => unknown;
+}
+
+export class LlmRequestError extends Error {
+    status?: number;
+    retryAfterMs?: number;
+
+    constructor(message: string, status?: number, retryAfterMs?: number) {
+        super(message);
+        this.name = 'LlmRequestError';
+        this.status = status;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+// Parses a Retry-After header value (seconds or HTTP date) into milliseconds.
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Builds an LlmRequestError from a non-2xx fetch response, keeping the vendor's message when present.
+export const errorFromResponse = async (response: Response, vendor: string): Promise<LlmRequestError> => {
+    let detail = response.statusText;
+    try {
+        const body = await response.json();
+        detail = body?.error?.message || body?.message || detail;
+    } catch {
+        // Body was not JSON; keep the status text.
+    }
+    return new LlmRequestError(`${vendor} API error ${response.status}: ${detail}`, response.status, parseRetryAfter(response.headers.get('retry-after')));
+};
+
+// Reads the { prompt_tokens, completion_tokens } usage block of OpenAI-compatible responses.
+export const usageFromOpenAiBody = (body: any): TokenUsage | undefined => {
+    if (!body?.usage) return undefined;
+    return { inputTokens: body.usage.prompt_tokens ?? 0, outputTokens: body.usage.completion_tokens ?? 0 };
+};
+
+// --- JSON Schema translation ---
+
+const JSON_TYPES: Partial<Record<Type, string>> = {
+    [Type.STRING]: 'string',
+    [Type.NUMBER]: 'number',
+    [Type.INTEGER]: 'integer',
+    [Type.BOOLEAN]: 'boolean',
+    [Type.ARRAY]: 'array',
+    [Type.OBJECT]: 'object',
+};
+
+/**
+ * Translates a Gemini responseSchema into standard JSON Schema.
+ * Objects are closed (additionalProperties: false) and `nullable` becomes a ["type", "null"] union.
+ */
+export const toJsonSchema = (schema: ResponseSchema): Record<string, any> => {
+    const type = schema.type ? JSON_TYPES[schema.type] : undefined;
+    const out: Record<string, any> = {};
+    if (type) out.type = schema.nullable ? [type, 'null'] : type;
+    if (schema.description) out.description = schema.description;
+    if (schema.enum) out.enum = schema.enum;
+    if (schema.items) out.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        out.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]));
+        out.required = schema.required || [];
+        out.additionalProperties = false;
+    }
+    return out;
+};
+
+// Strict structured output (OpenAI) requires every object property to be listed as required.
+export const isStrictCompatible = (schema: ResponseSchema): boolean => {
+    if (schema.properties) {
+        const required = new Set(schema.required || []);
+        if (!Object.keys(schema.properties).every(key => required.has(key))) return false;
+        if (!Object.values(schema.properties).every(isStrictCompatible)) return false;
+    }
+    return schema.items ? isStrictCompatible(schema.items) : true;
+};
+
+const ROOT_ARRAY_KEY = 'items';
+
+/**
+ * Most vendors require the root of a structured response to be an object.
+ * Root arrays are wrapped as { items: [...] } and unwrapped again with unwrapRootArray.
+ */
+export const wrapRootArray = (schema: ResponseSchema): { schema: ResponseSchema; wrapped: boolean } => {
+    if (schema.type !== Type.ARRAY) return { schema, wrapped: false };
+    return {
+        schema: { type: Type.OBJECT, properties: { [ROOT_ARRAY_KEY]: schema }, required: [ROOT_ARRAY_KEY] },
+        wrapped: true,
+    };
+};
+
+export const unwrapRootArray = (text: string, wrapped: boolean): string => {
+    if (!wrapped) return text;
+    try {
+        const parsed = JSON.parse(text);
+        return JSON.stringify(parsed?.[ROOT_ARRAY_KEY] ?? []);
+    } catch {
+        return text;
+    }
+};
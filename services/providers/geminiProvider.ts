@@ -0,0 +1,47 @@
+import { GoogleGenAI, ApiError } from "@google/genai";
+import type { LlmProviderAdapter } from './common';
+import { LlmRequestError } from './common';
+
+const getGeminiClient = (apiKey: string) => {
+    if (!apiKey) {
+        throw new Error("Gemini API key is not provided.");
+    }
+    return new GoogleGenAI({ apiKey });
+}
+
+// Gemini reports the server-suggested delay inside the error payload as RetryInfo.retryDelay, e.g. "27s".
+const parseRetryDelay = (message: string): number | undefined => {
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Number(match[1]) * 1000 : undefined;
+};
+
+export const geminiProvider: LlmProviderAdapter = {
+    generateStructured: async (config, request, signal) => {
+        const ai = getGeminiClient(config.apiKey);
+        // The SDK hands the signal to fetch, so aborting closes the HTTP connection.
+        const response = await ai.models.generateContent({
+            model: config.model,
+            contents: request.prompt,
+            config: {
+                temperature: config.temperature,
+                responseMimeType: "application/json",
+                responseSchema: request.responseSchema,
+                abortSignal: signal,
+            }
+        });
+        const metadata = response.usageMetadata;
+        // Thinking tokens are billed as output.
+        const usage = metadata ? { inputTokens: metadata.promptTokenCount ?? 0, outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0) } : undefined;
+        return { text: response.text ?? '', usage };
+    },
+
+    normalizeError: (error) => {
+        if (error instanceof ApiError) {
+            return new LlmRequestError(error.message, error.status, parseRetryDelay(error.message));
+        }
+        if (error instanceof Error && error.message.includes('429')) {
+            return new LlmRequestError(error.message, 429, parseRetryDelay(error.message));
+        }
+        return error;
+    },
+};
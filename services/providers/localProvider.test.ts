@@ -0,0 +1,84 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Type } from '@google/genai';
+import type { LlmConfig } from '../../types';
+import { localProvider } from './localProvider';
+
+const names = { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING } }, required: ['name'] } };
+const signal = new AbortController().signal;
+
+// Negotiated modes are remembered per endpoint and model, so each test uses its own server.
+const configFor = (baseUrl: string, overrides: Partial<LlmConfig> = {}): LlmConfig =>
+  ({ apiKey: '', provider: 'local', model: 'qwen2.5', temperature: 0, baseUrl, ...overrides });
+
+type Mode = 'json_schema' | 'grammar' | 'prompt';
+const modeOf = (body: any): Mode => body.response_format?.type === 'json_schema' ? 'json_schema' : body.response_format ? 'grammar' : 'prompt';
+
+// A server that rejects the structured-output fields of the given modes with a 400.
+const stubServer = (rejected: Mode[], content: string) => {
+  const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+    if (rejected.includes(modeOf(JSON.parse(init.body as string)))) {
+      return new Response(JSON.stringify({ error: { message: 'response_format is not supported' } }), { status: 400 });
+    }
+    return new Response(JSON.stringify({ choices: [{ message: { content } }] }));
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+const modesSent = (fetchMock: ReturnType<typeof stubServer>) => fetchMock.mock.calls.map(([, init]) => modeOf(JSON.parse(init.body as string)));
+
+describe('localProvider', () => {
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should fall back from json_schema to grammar to prompt in auto mode', async () => {
+    const fetchMock = stubServer(['json_schema', 'grammar'], '{"items":[{"name":"Dakota"}]}');
+
+    const response = await localProvider.generateStructured(configFor('http://fallback:8080/v1/'), { prompt: 'List the units.', responseSchema: names }, signal);
+
+    expect(modesSent(fetchMock)).toEqual(['json_schema', 'grammar', 'prompt']);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://fallback:8080/v1/chat/completions');
+    expect(JSON.parse(fetchMock.mock.calls[2][1].body as string).messages[0].content).toContain('validates against this JSON Schema');
+    expect(JSON.parse(response.text)).toEqual([{ name: 'Dakota' }]);
+  });
+
+  it('should remember the negotiated mode per endpoint and model', async () => {
+    const fetchMock = stubServer(['json_schema'], '{"items":[]}');
+    const config = configFor('http://negotiated:8080/v1');
+
+    await localProvider.generateStructured(config, { prompt: 'List.', responseSchema: names }, signal);
+    await localProvider.generateStructured(config, { prompt: 'List again.', responseSchema: names }, signal);
+    await localProvider.generateStructured({ ...config, model: 'llama3.1' }, { prompt: 'List.', responseSchema: names }, signal);
+
+    expect(modesSent(fetchMock)).toEqual(['json_schema', 'grammar', 'grammar', 'json_schema', 'grammar']);
+  });
+
+  it('should not fall back when a mode is chosen explicitly', async () => {
+    const fetchMock = stubServer(['json_schema'], '{"items":[]}');
+
+    const request = localProvider.generateStructured(configFor('http://explicit:8080/v1', { structuredOutputMode: 'json_schema' }), { prompt: 'List.', responseSchema: names }, signal);
+
+    await expect(request).rejects.toMatchObject({ status: 400 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should read JSON out of fenced or prose-wrapped replies', async () => {
+    const config = configFor('http://chatty:8080/v1', { structuredOutputMode: 'prompt' });
+    const object = { type: Type.OBJECT, properties: { name: { type: Type.STRING } }, required: ['name'] };
+
+    stubServer([], 'Here you go:\n```json\n{"name": "Dakota"}\n```\nLet me know if you need more.');
+    expect(JSON.parse((await localProvider.generateStructured(config, { prompt: 'Name it.', responseSchema: object }, signal)).text)).toEqual({ name: 'Dakota' });
+
+    stubServer([], 'The unit is {"name": "Mancos"} as requested.');
+    expect(JSON.parse((await localProvider.generateStructured(config, { prompt: 'Name it.', responseSchema: object }, signal)).text)).toEqual({ name: 'Mancos' });
+  });
+
+  it('should explain unreachable servers', () => {
+    expect(localProvider.normalizeError(new TypeError('Failed to fetch'))).toMatchObject({ message: 'Could not reach the local model server: Failed to fetch' });
+  });
+
+});
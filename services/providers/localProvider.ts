@@ -0,0 +1,97 @@
+import type { Schema as ResponseSchema } from "@google/genai";
+import type { LlmConfig, StructuredOutputMode } from '../../types';
+import type { LlmProviderAdapter, StructuredResponse } from './common';
+import { errorFromResponse, LlmRequestError, toJsonSchema, unwrapRootArray, usageFromOpenAiBody, wrapRootArray } from './common';
+
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+type ConcreteMode = Exclude<StructuredOutputMode, 'auto'>;
+const AUTO_MODE_ORDER: ConcreteMode[] = ['json_schema', 'grammar', 'prompt'];
+
+// Remembers which mode a server accepted so 'auto' only probes once per endpoint and model.
+const negotiatedModes = new Map<string, ConcreteMode>();
+
+const buildResponseFormat = (mode: ConcreteMode, jsonSchema: Record<string, any>): Record<string, any> => {
+    switch (mode) {
+        case 'json_schema':
+            return { response_format: { type: 'json_schema', json_schema: { name: 'extraction_result', schema: jsonSchema } } };
+        case 'grammar':
+            // llama.cpp reads the schema from json_object response_format; vLLM uses guided_json.
+            return { response_format: { type: 'json_object', schema: jsonSchema }, guided_json: jsonSchema };
+        case 'prompt':
+            return {};
+    }
+};
+
+const enforceSchemaInPrompt = (prompt: string, jsonSchema: Record<string, any>): string =>
+    `${prompt}\n\nRespond with a single JSON value that validates against this JSON Schema. Do not include any prose or code fences.\n${JSON.stringify(jsonSchema)}`;
+
+// Servers without constrained decoding often wrap JSON in prose or markdown fences.
+const extractJsonText = (text: string): string => {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (fenced) return fenced[1].trim();
+    const start = text.search(/[[{]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    return start >= 0 && end > start ? text.slice(start, end + 1) : text.trim();
+};
+
+// A 4xx other than auth or rate limiting usually means the server rejected the structured-output fields.
+const isUnsupportedFormatError = (error: unknown): boolean =>
+    error instanceof LlmRequestError && error.status !== undefined && [400, 404, 415, 422, 501].includes(error.status);
+
+const requestCompletion = async (config: LlmConfig, schema: ResponseSchema, prompt: string, mode: ConcreteMode, signal: AbortSignal): Promise<StructuredResponse> => {
+    const jsonSchema = toJsonSchema(schema);
+    const baseUrl = (config.baseUrl || DEFAULT_LOCAL_BASE_URL).replace(/\/+$/, '');
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+            model: config.model,
+            temperature: config.temperature,
+            messages: [{ role: 'user', content: mode === 'prompt' ? enforceSchemaInPrompt(prompt, jsonSchema) : prompt }],
+            ...buildResponseFormat(mode, jsonSchema),
+        }),
+        signal,
+    });
+    if (!response.ok) {
+        throw await errorFromResponse(response, 'Local model server');
+    }
+    const body = await response.json();
+    return { text: body.choices?.[0]?.message?.content ?? '', usage: usageFromOpenAiBody(body) };
+};
+
+// Any OpenAI-compatible chat completions server (Ollama, llama.cpp server, vLLM, LM Studio).
+export const localProvider: LlmProviderAdapter = {
+    generateStructured: async (config, request, signal) => {
+        const { schema, wrapped } = wrapRootArray(request.responseSchema);
+        const requestedMode = config.structuredOutputMode || 'auto';
+        const cacheKey = `${config.baseUrl || DEFAULT_LOCAL_BASE_URL}|${config.model}`;
+        const modes: ConcreteMode[] = requestedMode !== 'auto'
+            ? [requestedMode]
+            : AUTO_MODE_ORDER.slice(AUTO_MODE_ORDER.indexOf(negotiatedModes.get(cacheKey) || 'json_schema'));
+
+        let lastError: unknown;
+        for (const mode of modes) {
+            try {
+                const { text, usage } = await requestCompletion(config, schema, request.prompt, mode, signal);
+                if (requestedMode === 'auto') negotiatedModes.set(cacheKey, mode);
+                return { text: unwrapRootArray(extractJsonText(text), wrapped), usage };
+            } catch (e) {
+                if (requestedMode !== 'auto' || !isUnsupportedFormatError(e)) throw e;
+                lastError = e;
+            }
+        }
+        throw lastError;
+    },
+
+    normalizeError: (error) => {
+        if (error instanceof TypeError) {
+            // fetch() rejects with a TypeError when the server is unreachable or blocks CORS.
+            return new LlmRequestError(`Could not reach the local model server: ${error.message}`);
+        }
+        return error;
+    },
+};
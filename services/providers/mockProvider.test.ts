@@ -0,0 +1,94 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { Type } from '@google/genai';
+import type { LlmConfig } from '../../types';
+import type { LlmProviderAdapter } from './common';
+import { createEmptyFixture, createRecordReplayProvider, hashRequest, parseFixture, serializeFixture } from './mockProvider';
+
+const config: LlmConfig = { apiKey: 'test', provider: 'mock', model: 'test-model', temperature: 0, mockUpstream: 'openai' };
+const request = { prompt: 'Extract things.', responseSchema: { type: Type.OBJECT, properties: { things: { type: Type.ARRAY, items: { type: Type.STRING } } }, required: ['things'] } };
+const signal = new AbortController().signal;
+
+const scriptedUpstream = (text: string): LlmProviderAdapter => ({
+  generateStructured: vi.fn(async () => ({ text })),
+  normalizeError: (e) => e,
+});
+
+describe('hashRequest', () => {
+
+  it('should be stable regardless of schema key order', async () => {
+    const reordered = { ...request, responseSchema: { required: ['things'], properties: request.responseSchema.properties, type: Type.OBJECT } };
+    expect(await hashRequest(config, reordered)).toBe(await hashRequest(config, request));
+  });
+
+  it('should change when the prompt, model or temperature changes', async () => {
+    const base = await hashRequest(config, request);
+    expect(await hashRequest(config, { ...request, prompt: 'Other prompt.' })).not.toBe(base);
+    expect(await hashRequest({ ...config, model: 'other-model' }, request)).not.toBe(base);
+    expect(await hashRequest({ ...config, temperature: 0.5 }, request)).not.toBe(base);
+  });
+
+  it('should ignore which vendor the request is sent to', async () => {
+    expect(await hashRequest({ ...config, mockUpstream: 'gemini' }, request)).toBe(await hashRequest(config, request));
+  });
+
+});
+
+describe('createRecordReplayProvider', () => {
+
+  it('should record the upstream response under the request hash', async () => {
+    const fixture = createEmptyFixture();
+    const upstream = scriptedUpstream('{"things":["a"]}');
+    const provider = createRecordReplayProvider({ getFixture: () => fixture, resolveUpstream: () => upstream });
+
+    const response = await provider.generateStructured({ ...config, mockMode: 'record' }, request, signal);
+
+    expect(response.text).toBe('{"things":["a"]}');
+    const hash = await hashRequest(config, request);
+    expect(fixture.entries[hash]).toMatchObject({
+      request: { prompt: 'Extract things.', model: 'test-model', temperature: 0 },
+      response: { text: '{"things":["a"]}' },
+      recordedWith: 'openai',
+    });
+    expect(upstream.generateStructured).toHaveBeenCalledWith(expect.objectContaining({ provider: 'openai' }), request, signal);
+  });
+
+  it('should replay a recorded response without calling upstream', async () => {
+    const fixture = createEmptyFixture();
+    const upstream = scriptedUpstream('{"things":["a"]}');
+    const provider = createRecordReplayProvider({ getFixture: () => fixture, resolveUpstream: () => upstream });
+    await provider.generateStructured({ ...config, mockMode: 'record' }, request, signal);
+
+    const replayed = await provider.generateStructured({ ...config, mockMode: 'replay' }, request, signal);
+
+    expect(replayed.text).toBe('{"things":["a"]}');
+    expect(upstream.generateStructured).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a replay miss instead of calling upstream', async () => {
+    const upstream = scriptedUpstream('{}');
+    const provider = createRecordReplayProvider({ getFixture: createEmptyFixture, resolveUpstream: () => upstream });
+
+    await expect(provider.generateStructured({ ...config, mockMode: 'replay' }, request, signal)).rejects.toThrow('No recorded response');
+    expect(upstream.generateStructured).not.toHaveBeenCalled();
+  });
+
+});
+
+describe('parseFixture', () => {
+
+  it('should round-trip a serialized fixture', async () => {
+    const fixture = createEmptyFixture();
+    const provider = createRecordReplayProvider({ getFixture: () => fixture, resolveUpstream: () => scriptedUpstream('{"things":[]}') });
+    await provider.generateStructured({ ...config, mockMode: 'record' }, request, signal);
+
+    expect(parseFixture(serializeFixture(fixture))).toEqual(fixture);
+  });
+
+  it('should reject JSON that is not a fixture', () => {
+    expect(() => parseFixture('{"foo": 1}')).toThrow('Not a valid LLM fixture file');
+  });
+
+});
@@ -0,0 +1,104 @@
+import type { Schema as ResponseSchema } from "@google/genai";
+import type { LlmConfig, TokenUsage, UpstreamLLMProvider } from '../../types';
+import type { LlmProviderAdapter, StructuredRequest } from './common';
+import { LlmRequestError } from './common';
+import { sha256Hex, stableStringify } from '../hashing';
+
+export interface LlmFixtureEntry {
+    hash: string;
+    request: {
+        prompt: string;
+        model: string;
+        temperature: number;
+        responseSchema: ResponseSchema;
+    };
+    response: { text: string; usage?: TokenUsage };
+    recordedWith: UpstreamLLMProvider;
+    recordedAt: string;
+}
+
+export interface LlmFixture {
+    version: 1;
+    entries: Record<string, LlmFixtureEntry>;
+}
+
+export const createEmptyFixture = (): LlmFixture => ({ version: 1, entries: {} });
+
+// The request hash deliberately ignores the vendor, so a fixture recorded against one
+// provider replays for any config with the same model, temperature, prompt and schema.
+export const hashRequest = (config: LlmConfig, request: StructuredRequest): Promise<string> =>
+    sha256Hex(stableStringify({
+        model: config.model,
+        temperature: config.temperature,
+        prompt: request.prompt,
+        responseSchema: request.responseSchema,
+    }));
+
+export const parseFixture = (json: string): LlmFixture => {
+    const parsed = JSON.parse(json);
+    if (parsed?.version !== 1 || typeof parsed.entries !== 'object' || parsed.entries === null) {
+        throw new Error("Not a valid LLM fixture file (expected { version: 1, entries: {...} }).");
+    }
+    return parsed as LlmFixture;
+};
+
+export const serializeFixture = (fixture: LlmFixture): string => JSON.stringify(fixture, null, 2);
+
+interface RecordReplayOptions {
+    getFixture: () => LlmFixture;
+    resolveUpstream: (provider: UpstreamLLMProvider) => LlmProviderAdapter;
+}
+
+/**
+ * In 'record' mode every call is forwarded to the upstream provider and the request/response
+ * pair is stored in the fixture under its request hash. In 'replay' mode responses are served
+ * from the fixture only; a miss is an error, never a network call.
+ */
+export const createRecordReplayProvider = ({ getFixture, resolveUpstream }: RecordReplayOptions): LlmProviderAdapter => ({
+    generateStructured: async (config, request, signal) => {
+        const hash = await hashRequest(config, request);
+        const fixture = getFixture();
+
+        if ((config.mockMode || 'replay') === 'replay') {
+            const entry = fixture.entries[hash];
+            if (!entry) {
+                throw new LlmRequestError(`No recorded response for request ${hash.slice(0, 12)} in the loaded fixture.`);
+            }
+            return { text: entry.response.text, usage: entry.response.usage };
+        }
+
+        const upstreamId = config.mockUpstream || 'gemini';
+        const upstream = resolveUpstream(upstreamId);
+        let response;
+        try {
+            response = await upstream.generateStructured({ ...config, provider: upstreamId }, request, signal);
+        } catch (e) {
+            if (e instanceof Error && e.name === 'AbortError') throw e;
+            throw upstream.normalizeError(e);
+        }
+        fixture.entries[hash] = {
+            hash,
+            request: { prompt: request.prompt, model: config.model, temperature: config.temperature, responseSchema: request.responseSchema },
+            response: { text: response.text, usage: response.usage },
+            recordedWith: upstreamId,
+            recordedAt: new Date().toISOString(),
+        };
+        return response;
+    },
+
+    normalizeError: (error) => error,
+});
+
+// --- Session fixture used by the built-in 'mock' provider ---
+
+let sessionFixture: LlmFixture = createEmptyFixture();
+
+export const getSessionFixture = (): LlmFixture => sessionFixture;
+
+export const loadSessionFixture = (fixture: LlmFixture) => {
+    sessionFixture = fixture;
+};
+
+export const clearSessionFixture = () => {
+    sessionFixture = createEmptyFixture();
+};
@@ -0,0 +1,85 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Type } from '@google/genai';
+import type { LlmConfig } from '../../types';
+import { LlmRequestError } from './common';
+import { openaiProvider } from './openaiProvider';
+
+const config: LlmConfig = { apiKey: 'sk-test', provider: 'openai', model: 'gpt-4o-mini', temperature: 0.1 };
+const names = { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING } }, required: ['name'] } };
+
+const stubFetch = (response: Response) => {
+  const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => response);
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+const completion = (content: string) => new Response(JSON.stringify({
+  choices: [{ message: { content } }],
+  usage: { prompt_tokens: 120, completion_tokens: 30 },
+}));
+const sentBody = (fetchMock: ReturnType<typeof stubFetch>) => JSON.parse(fetchMock.mock.calls[0][1].body as string);
+
+describe('openaiProvider', () => {
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should request a strict JSON schema and unwrap root arrays from the reply', async () => {
+    const fetchMock = stubFetch(completion('{"items":[{"name":"Dakota"}]}'));
+
+    const response = await openaiProvider.generateStructured(config, { prompt: 'List the units.', responseSchema: names }, new AbortController().signal);
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.openai.com/v1/chat/completions');
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ Authorization: 'Bearer sk-test' });
+    expect(sentBody(fetchMock)).toEqual({
+      model: 'gpt-4o-mini',
+      temperature: 0.1,
+      messages: [{ role: 'user', content: 'List the units.' }],
+      response_format: {
+        type: 'json_schema',
+        json_schema: {
+          name: 'extraction_result',
+          strict: true,
+          schema: {
+            type: 'object',
+            properties: { items: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'], additionalProperties: false } } },
+            required: ['items'],
+            additionalProperties: false,
+          },
+        },
+      },
+    });
+    expect(JSON.parse(response.text)).toEqual([{ name: 'Dakota' }]);
+    expect(response.usage).toEqual({ inputTokens: 120, outputTokens: 30 });
+  });
+
+  it('should turn strict mode off when a property is optional', async () => {
+    const fetchMock = stubFetch(completion('{"name":"Dakota"}'));
+    const optional = { type: Type.OBJECT, properties: { name: { type: Type.STRING }, age: { type: Type.STRING } }, required: ['name'] };
+
+    const response = await openaiProvider.generateStructured(config, { prompt: 'Describe.', responseSchema: optional }, new AbortController().signal);
+
+    expect(sentBody(fetchMock).response_format.json_schema.strict).toBe(false);
+    expect(response.text).toBe('{"name":"Dakota"}');
+  });
+
+  it('should map error responses to LlmRequestError with the status and Retry-After', async () => {
+    stubFetch(new Response(JSON.stringify({ error: { message: 'Rate limit reached' } }), { status: 429, headers: { 'Retry-After': '20' } }));
+
+    const request = openaiProvider.generateStructured(config, { prompt: 'List.', responseSchema: names }, new AbortController().signal);
+
+    await expect(request).rejects.toBeInstanceOf(LlmRequestError);
+    await expect(request).rejects.toMatchObject({ status: 429, retryAfterMs: 20000 });
+  });
+
+  it('should report refusals', async () => {
+    stubFetch(new Response(JSON.stringify({ choices: [{ message: { content: null, refusal: 'I cannot help with that.' } }] })));
+
+    await expect(openaiProvider.generateStructured(config, { prompt: 'List.', responseSchema: names }, new AbortController().signal))
+      .rejects.toThrow('OpenAI refused the request: I cannot help with that.');
+  });
+
+});
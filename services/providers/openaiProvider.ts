@@ -0,0 +1,43 @@
+import type { LlmProviderAdapter } from './common';
+import { errorFromResponse, isStrictCompatible, LlmRequestError, toJsonSchema, unwrapRootArray, usageFromOpenAiBody, wrapRootArray } from './common';
+
+const OPENAI_CHAT_COMPLETIONS_URL = 'https://api.openai.com/v1/chat/completions';
+
+// OpenAI Chat Completions with JSON-schema `response_format`.
+export const openaiProvider: LlmProviderAdapter = {
+    generateStructured: async (config, request, signal) => {
+        if (!config.apiKey) {
+            throw new Error("OpenAI API key is not provided.");
+        }
+        const { schema, wrapped } = wrapRootArray(request.responseSchema);
+        const response = await fetch(OPENAI_CHAT_COMPLETIONS_URL, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${config.apiKey}`,
+            },
+            body: JSON.stringify({
+                model: config.model,
+                temperature: config.temperature,
+                messages: [{ role: 'user', content: request.prompt }],
+                response_format: {
+                    type: 'json_schema',
+                    json_schema: { name: 'extraction_result', schema: toJsonSchema(schema), strict: isStrictCompatible(schema) },
+                },
+            }),
+            signal,
+        });
+        if (!response.ok) {
+            throw await errorFromResponse(response, 'OpenAI');
+        }
+
+        const body = await response.json();
+        const message = body.choices?.[0]?.message;
+        if (message?.refusal) {
+            throw new LlmRequestError(`OpenAI refused the request: ${message.refusal}`);
+        }
+        return { text: unwrapRootArray(message?.content ?? '', wrapped), usage: usageFromOpenAiBody(body) };
+    },
+
+    normalizeError: (error) => error,
+};
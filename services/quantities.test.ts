@@ -0,0 +1,40 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect } from 'vitest';
+import { normalizeMeasurement, parseLengths } from './quantities';
+
+describe('parseLengths', () => {
+  it('converts lengths and ranges to metres', () => {
+    expect(parseLengths('The bed is 15–20 m thick, 35 cm of shale, a 1,250 ft well and 2.5 km of section.')).toEqual([
+      { value: 17.5, unit: 'm', range: [15, 20], text: '15–20 m' },
+      { value: 0.35, unit: 'm', text: '35 cm' },
+      { value: 381, unit: 'm', text: '1,250 ft' },
+      { value: 2500, unit: 'm', text: '2.5 km' },
+    ]);
+  });
+
+  it('ignores other units', () => {
+    expect(parseLengths('dated at 112 Ma over 3 my, 5 m² plots')).toEqual([]);
+  });
+});
+
+describe('normalizeMeasurement', () => {
+  const triple = (predicate: string, object: string, evidenceText = '') => ({ subject: 'Ruby Ranch Member', predicate, object, evidenceText });
+
+  it('reads the object of measurement predicates', () => {
+    expect(normalizeMeasurement(triple('hasThickness', '30 ft')).quantity).toEqual({ value: 9.144, unit: 'm', text: '30 ft' });
+    expect(normalizeMeasurement(triple('hasDepthTop_m', '1200', 'The top lies at 1200 m depth.')).quantity).toMatchObject({ value: 1200, unit: 'm' });
+  });
+
+  it('flags objects that are not a length', () => {
+    const checked = normalizeMeasurement(triple('hasHeight_m', 'Cedar Mountain Formation'));
+    expect(checked.quantity).toBeUndefined();
+    expect(checked.literalIssue).toBe('hasHeight_m expects a length in m, but "Cedar Mountain Formation" is not one.');
+  });
+
+  it('leaves other predicates alone', () => {
+    const other = triple('partOf', 'Cedar Mountain Formation');
+    expect(normalizeMeasurement(other)).toBe(other);
+  });
+});
@@ -0,0 +1,46 @@
+import type { QuantityValue, Triple } from '../types';
+
+// Recognises lengths ("15–20 m thick", "1,250 ft", "35 cm") and converts them to the SI unit
+// implied by the measurement predicates of the schema.
+
+const METRES_PER_UNIT: Record<string, number> = { mm: 0.001, cm: 0.01, m: 1, km: 1000, ft: 0.3048, feet: 0.3048, foot: 0.3048 };
+
+// Predicates whose object is a literal value, with the unit the value is stored in.
+export const MEASUREMENT_PREDICATES: Record<string, string> = {
+    hasThickness: 'm',
+    hasDepthTop_m: 'm',
+    hasDepthBase_m: 'm',
+    hasHeight_m: 'm',
+};
+
+const NUMBER = '\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?';
+const LENGTH = new RegExp(`(?<![\\d.,])(${NUMBER})(?:\\s*(?:[-–—]|to)\\s*(${NUMBER}))?\\s*(mm|cm|km|m|ft|feet|foot)(?![\\p{L}\\d²³])`, 'gu');
+
+const toMetres = (value: string, unit: string): number =>
+    Number((Number(value.replace(/,/g, '')) * METRES_PER_UNIT[unit]).toPrecision(12));
+
+/** Lengths in the text, in metres; a range keeps its bounds and takes its midpoint as the value. */
+export const parseLengths = (text: string): QuantityValue[] =>
+    [...text.matchAll(LENGTH)].map(([span, first, second, unit]) => {
+        const bounds = second !== undefined ? [toMetres(first, unit), toMetres(second, unit)].sort((a, b) => a - b) : undefined;
+        return {
+            value: bounds ? Number(((bounds[0] + bounds[1]) / 2).toPrecision(12)) : toMetres(first, unit),
+            unit: 'm',
+            ...(bounds ? { range: [bounds[0], bounds[1]] as [number, number] } : {}),
+            text: span,
+        };
+    });
+
+/**
+ * Reads the object of a measurement triple as a value in the predicate's unit. A bare number
+ * object takes its unit from the length it starts in the evidence. Objects
+ * that are not a length are reported in `literalIssue` rather than dropped.
+ */
+export const normalizeMeasurement = <T extends Pick<Triple, 'predicate' | 'object' | 'evidenceText'>>(triple: T): T & Pick<Triple, 'quantity' | 'literalIssue'> => {
+    if (!MEASUREMENT_PREDICATES[triple.predicate]) return triple;
+    const number = triple.object.trim();
+    const quantity = parseLengths(triple.object)[0]
+        ?? (/^[\d.,]+$/.test(number) ? parseLengths(triple.evidenceText).find(length => length.text.startsWith(number)) : undefined);
+    if (quantity) return { ...triple, quantity };
+    return { ...triple, literalIssue: `${triple.predicate} expects a length in ${MEASUREMENT_PREDICATES[triple.predicate]}, but "${triple.object}" is not one.` };
+};
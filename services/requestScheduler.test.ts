@@ -0,0 +1,101 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createRequestScheduler } from './requestScheduler';
+
+// A task whose completion is controlled by the test.
+const deferredTask = (label: string, started: string[]) => {
+  let finish!: () => void;
+  const done = new Promise<string>(resolve => { finish = () => resolve(label); });
+  return { task: () => { started.push(label); return done; }, finish: () => finish() };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createRequestScheduler', () => {
+
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('should never run more than maxInFlight tasks at once', async () => {
+    const scheduler = createRequestScheduler({ maxInFlight: 2, requestsPerMinute: 0 });
+    const started: string[] = [];
+    const tasks = ['a', 'b', 'c'].map(label => deferredTask(label, started));
+    const signal = new AbortController().signal;
+    const results = tasks.map(t => scheduler.run(t.task, { queueKey: 'file', signal }));
+
+    expect(started).toEqual(['a', 'b']);
+    tasks[0].finish();
+    await flush();
+    expect(started).toEqual(['a', 'b', 'c']);
+    tasks[1].finish(); tasks[2].finish();
+    expect(await Promise.all(results)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should take turns between queue keys', async () => {
+    const scheduler = createRequestScheduler({ maxInFlight: 1, requestsPerMinute: 0 });
+    const started: string[] = [];
+    const signal = new AbortController().signal;
+    const blocker = deferredTask('blocker', started);
+    scheduler.run(blocker.task, { queueKey: 'x', signal });
+
+    ['a1', 'a2', 'a3', 'b1', 'b2'].forEach(label => {
+      scheduler.run(() => { started.push(label); return Promise.resolve(label); }, { queueKey: label[0], signal });
+    });
+    blocker.finish();
+    for (let i = 0; i < 10; i++) await flush();
+
+    expect(started).toEqual(['blocker', 'a1', 'b1', 'a2', 'b2', 'a3']);
+  });
+
+  it('should report queue positions and dispatch of waiting requests', async () => {
+    const scheduler = createRequestScheduler({ maxInFlight: 1, requestsPerMinute: 0 });
+    const started: string[] = [];
+    const signal = new AbortController().signal;
+    const first = deferredTask('first', started);
+    scheduler.run(first.task, { queueKey: 'a', signal });
+
+    const onQueued = vi.fn();
+    const onDispatched = vi.fn();
+    const second = deferredTask('second', started);
+    scheduler.run(second.task, { queueKey: 'b', signal, onQueued, onDispatched });
+
+    expect(onQueued).toHaveBeenLastCalledWith(1);
+    expect(onDispatched).not.toHaveBeenCalled();
+    first.finish();
+    await flush();
+    expect(onDispatched).toHaveBeenCalledTimes(1);
+    second.finish();
+  });
+
+  it('should reject and dequeue a waiting request when its signal aborts', async () => {
+    const scheduler = createRequestScheduler({ maxInFlight: 1, requestsPerMinute: 0 });
+    const started: string[] = [];
+    const blocker = deferredTask('blocker', started);
+    scheduler.run(blocker.task, { queueKey: 'a', signal: new AbortController().signal });
+
+    const controller = new AbortController();
+    const waiting = scheduler.run(deferredTask('never', started).task, { queueKey: 'b', signal: controller.signal });
+    controller.abort();
+
+    await expect(waiting).rejects.toThrow('Aborted');
+    blocker.finish();
+    await flush();
+    expect(started).toEqual(['blocker']);
+  });
+
+  it('should hold requests beyond the per-minute budget until the window frees up', async () => {
+    vi.useFakeTimers();
+    const scheduler = createRequestScheduler({ maxInFlight: 0, requestsPerMinute: 2 });
+    const started: string[] = [];
+    const signal = new AbortController().signal;
+    ['a', 'b', 'c'].forEach(label => scheduler.run(() => { started.push(label); return Promise.resolve(label); }, { queueKey: 'file', signal }));
+
+    expect(started).toEqual(['a', 'b']);
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(started).toEqual(['a', 'b']);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(started).toEqual(['a', 'b', 'c']);
+  });
+
+});
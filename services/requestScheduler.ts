@@ -0,0 +1,146 @@
+import type { RequestLimits } from '../types';
+
+export const DEFAULT_REQUEST_LIMITS: RequestLimits = {
+    maxInFlight: 4,
+    requestsPerMinute: 0,
+};
+
+const RATE_WINDOW_MS = 60_000;
+
+export interface ScheduleOptions {
+    // Requests sharing a key (e.g. one file) are served FIFO; keys are served round-robin.
+    queueKey: string;
+    signal: AbortSignal;
+    // Fired whenever a waiting request's 1-based position in the overall dispatch order changes.
+    onQueued?: (position: number) => void;
+    // Fired when a request that had to wait is dispatched.
+    onDispatched?: () => void;
+}
+
+interface Waiter {
+    start: () => void;
+    cancel: () => void;
+    options: ScheduleOptions;
+    lastPosition?: number;
+}
+
+export interface RequestScheduler {
+    run: <T>(task: () => Promise<T>, options: ScheduleOptions) => Promise<T>;
+    setLimits: (limits: RequestLimits) => void;
+}
+
+/**
+ * Bounds the number of concurrent LLM requests and the request rate, queueing the rest.
+ * Queues are kept per key and drained round-robin so one large file cannot starve the others.
+ */
+export const createRequestScheduler = (initialLimits: RequestLimits = DEFAULT_REQUEST_LIMITS): RequestScheduler => {
+    let limits = initialLimits;
+    let inFlight = 0;
+    const startTimes: number[] = [];
+    const queues = new Map<string, Waiter[]>();
+    let keyOrder: string[] = [];
+    let cursor = 0;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    // Dispatch order if every slot opened right now: one request per key per round.
+    const plannedOrder = (): Waiter[] => {
+        const order: Waiter[] = [];
+        const lists = keyOrder.map((_, i) => queues.get(keyOrder[(cursor + i) % keyOrder.length]) || []);
+        for (let round = 0; lists.some(list => list.length > round); round++) {
+            lists.forEach(list => { if (list.length > round) order.push(list[round]); });
+        }
+        return order;
+    };
+
+    const notifyPositions = () => {
+        plannedOrder().forEach((waiter, index) => {
+            if (waiter.lastPosition !== index + 1) {
+                waiter.lastPosition = index + 1;
+                waiter.options.onQueued?.(index + 1);
+            }
+        });
+    };
+
+    const removeKeyIfEmpty = (key: string) => {
+        if ((queues.get(key) || []).length > 0) return;
+        const index = keyOrder.indexOf(key);
+        queues.delete(key);
+        keyOrder = keyOrder.filter(k => k !== key);
+        if (index >= 0 && index < cursor) cursor--;
+        if (cursor >= keyOrder.length) cursor = 0;
+    };
+
+    // Milliseconds until the rate window admits another request (0 if it already does).
+    const rateLimitWait = (now: number): number => {
+        while (startTimes.length > 0 && now - startTimes[0] >= RATE_WINDOW_MS) startTimes.shift();
+        if (limits.requestsPerMinute <= 0 || startTimes.length < limits.requestsPerMinute) return 0;
+        return startTimes[0] + RATE_WINDOW_MS - now;
+    };
+
+    const pump = () => {
+        if (timer) { clearTimeout(timer); timer = null; }
+        while (keyOrder.length > 0 && (limits.maxInFlight <= 0 || inFlight < limits.maxInFlight)) {
+            const wait = rateLimitWait(Date.now());
+            if (wait > 0) {
+                timer = setTimeout(pump, wait);
+                break;
+            }
+            const key = keyOrder[cursor];
+            const waiter = queues.get(key)!.shift()!;
+            cursor = (cursor + 1) % keyOrder.length;
+            removeKeyIfEmpty(key);
+            waiter.start();
+        }
+        notifyPositions();
+    };
+
+    const run = <T,>(task: () => Promise<T>, options: ScheduleOptions): Promise<T> => {
+        if (options.signal.aborted) return Promise.reject(new DOMException('Aborted', 'AbortError'));
+
+        return new Promise<T>((resolve, reject) => {
+            const execute = () => {
+                inFlight++;
+                startTimes.push(Date.now());
+                task().then(resolve, reject).finally(() => {
+                    inFlight--;
+                    pump();
+                });
+            };
+
+            const onAbort = () => waiter.cancel();
+            const waiter: Waiter = {
+                options,
+                start: () => {
+                    options.signal.removeEventListener('abort', onAbort);
+                    if (waiter.lastPosition !== undefined) options.onDispatched?.();
+                    execute();
+                },
+                cancel: () => {
+                    const list = queues.get(options.queueKey) || [];
+                    const index = list.indexOf(waiter);
+                    if (index < 0) return;
+                    list.splice(index, 1);
+                    removeKeyIfEmpty(options.queueKey);
+                    reject(new DOMException('Aborted', 'AbortError'));
+                    notifyPositions();
+                },
+            };
+            options.signal.addEventListener('abort', onAbort, { once: true });
+
+            if (!queues.has(options.queueKey)) {
+                queues.set(options.queueKey, []);
+                keyOrder.push(options.queueKey);
+            }
+            queues.get(options.queueKey)!.push(waiter);
+            pump();
+        });
+    };
+
+    const setLimits = (next: RequestLimits) => {
+        const changed = next.maxInFlight !== limits.maxInFlight || next.requestsPerMinute !== limits.requestsPerMinute;
+        limits = next;
+        if (changed) pump();
+    };
+
+    return { run, setLimits };
+};
@@ -0,0 +1,41 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect } from 'vitest';
+import type { LlmConfig } from '../types';
+import { buildCacheKey, countCachedResponses, readCachedResponse, writeCachedResponse } from './responseCache';
+
+const config: LlmConfig = { apiKey: '', provider: 'gemini', model: 'gemini-2.5-flash', temperature: 0.2 };
+
+describe('buildCacheKey', () => {
+
+  it('should not depend on the order of the inputs', async () => {
+    const a = await buildCacheKey('entities', { text: 'Dakota Fm', prompt: 2, schema: '1.0.0' }, config);
+    const b = await buildCacheKey('entities', { schema: '1.0.0', prompt: 2, text: 'Dakota Fm' }, config);
+    expect(a).toBe(b);
+  });
+
+  it('should change with the prompt, stage, endpoint, model and temperature', async () => {
+    const base = await buildCacheKey('entities', { text: 'Dakota Fm', prompt: 2 }, config);
+    const variants = await Promise.all([
+      buildCacheKey('entities', { text: 'Dakota Fm', prompt: 3 }, config),
+      buildCacheKey('relationships', { text: 'Dakota Fm', prompt: 2 }, config),
+      buildCacheKey('entities', { text: 'Dakota Fm', prompt: 2 }, { ...config, provider: 'local' }),
+      buildCacheKey('entities', { text: 'Dakota Fm', prompt: 2 }, { ...config, baseUrl: 'http://localhost:8080/v1' }),
+      buildCacheKey('entities', { text: 'Dakota Fm', prompt: 2 }, { ...config, model: 'gemini-2.5-pro' }),
+      buildCacheKey('entities', { text: 'Dakota Fm', prompt: 2 }, { ...config, temperature: 0.5 }),
+    ]);
+    variants.forEach(key => expect(key).not.toBe(base));
+  });
+
+});
+
+describe('response cache without IndexedDB', () => {
+
+  it('should behave as an always-missing cache', async () => {
+    await writeCachedResponse('key', 'entities', { entities: [] });
+    expect(await readCachedResponse('key')).toBeUndefined();
+    expect(await countCachedResponses()).toBe(0);
+  });
+
+});
@@ -0,0 +1,90 @@
+import type { LlmConfig, LlmStage } from '../types';
+import { sha256Hex, stableStringify } from './hashing';
+
+// Persistent, content-addressed cache of parsed LLM results, one entry per pipeline stage call.
+// Every operation degrades to a cache miss when IndexedDB is unavailable or fails.
+
+const DB_NAME = 'deeptime-llm-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+
+interface CacheEntry {
+    key: string;
+    stage: LlmStage;
+    value: unknown;
+    createdAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') return reject(new Error('IndexedDB is not available.'));
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to retry after a failed open.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const runRequest = async <T,>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Key for one stage call: the stage, its inputs (document text, prompt template text,
+ * schema version and whatever else the stage's prompt is built from) and the model endpoint and settings.
+ */
+export const buildCacheKey = (stage: LlmStage, inputs: Record<string, unknown>, llmConfig: LlmConfig): Promise<string> =>
+    sha256Hex(stableStringify({
+        stage,
+        inputs,
+        provider: llmConfig.provider,
+        baseUrl: llmConfig.baseUrl,
+        model: llmConfig.model,
+        temperature: llmConfig.temperature,
+    }));
+
+export const readCachedResponse = async <T,>(key: string): Promise<T | undefined> => {
+    try {
+        const entry = await runRequest<CacheEntry | undefined>('readonly', store => store.get(key));
+        return entry?.value as T | undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+export const writeCachedResponse = async (key: string, stage: LlmStage, value: unknown): Promise<void> => {
+    try {
+        const entry: CacheEntry = { key, stage, value, createdAt: new Date().toISOString() };
+        await runRequest('readwrite', store => store.put(entry));
+    } catch {
+        // An unwritten entry is just a miss next time.
+    }
+};
+
+export const countCachedResponses = async (): Promise<number> => {
+    try {
+        return await runRequest('readonly', store => store.count());
+    } catch {
+        return 0;
+    }
+};
+
+export const clearCachedResponses = async (): Promise<void> => {
+    try {
+        await runRequest('readwrite', store => store.clear());
+    } catch {
+        // The settings panel re-counts the entries afterwards, which shows whether the clear took effect.
+    }
+};
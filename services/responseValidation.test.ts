@@ -0,0 +1,65 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect } from 'vitest';
+import { Type } from '@google/genai';
+import { closeTruncatedJson, parseStructuredResponse, repairJsonText } from './responseValidation';
+
+const coreSchema = {
+  type: Type.OBJECT,
+  properties: {
+    questions: { type: Type.ARRAY, items: { type: Type.STRING } },
+    page: { type: Type.NUMBER, nullable: true },
+  },
+  required: ['questions', 'page'],
+};
+
+describe('closeTruncatedJson', () => {
+
+  it('should leave complete JSON untouched', () => {
+    expect(closeTruncatedJson('{"a": [1, 2]}')).toBe('{"a": [1, 2]}');
+  });
+
+  it('should drop a half-written array element and close the brackets', () => {
+    expect(JSON.parse(closeTruncatedJson('{"items": [{"a": 1}, {"a": "unterminated'))).toEqual({ items: [{ a: 1 }] });
+  });
+
+  it('should drop a half-written property', () => {
+    expect(JSON.parse(closeTruncatedJson('{"a": 1, "b": [1, 2'))).toEqual({ a: 1, b: [1] });
+  });
+
+  it('should not be confused by brackets inside strings', () => {
+    expect(JSON.parse(closeTruncatedJson('["a [b", "c {d", "e'))).toEqual(['a [b', 'c {d']);
+  });
+
+});
+
+describe('repairJsonText', () => {
+
+  it('should strip code fences, leading prose and trailing commas', () => {
+    expect(JSON.parse(repairJsonText('Here you go:\n```json\n{"a": [1, 2,],}\n```'))).toEqual({ a: [1, 2] });
+  });
+
+});
+
+describe('parseStructuredResponse', () => {
+
+  it('should coerce numeric strings to numbers', () => {
+    expect(parseStructuredResponse('{"questions": [], "page": "12"}', coreSchema)).toEqual({ value: { questions: [], page: 12 }, issues: [] });
+  });
+
+  it('should report missing fields and wrong types with their paths', () => {
+    const { issues } = parseStructuredResponse('{"questions": [1]}', coreSchema);
+    expect(issues).toEqual(['$.page: missing required field', '$.questions[0]: expected string, got number']);
+  });
+
+  it('should accept null only for nullable fields', () => {
+    expect(parseStructuredResponse('{"questions": [], "page": null}', coreSchema).issues).toEqual([]);
+    expect(parseStructuredResponse('{"questions": null, "page": null}', coreSchema).issues).toEqual(['$.questions: expected array, got null']);
+  });
+
+  it('should report text that cannot be repaired into JSON', () => {
+    expect(parseStructuredResponse('I cannot help with that.', coreSchema).issues[0]).toMatch(/^\$: response is not valid JSON/);
+  });
+
+});
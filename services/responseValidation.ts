@@ -0,0 +1,165 @@
+import { Type } from "@google/genai";
+import type { Schema as ResponseSchema } from "@google/genai";
+
+// Raised when a structured response still does not match its schema after repair and re-asking.
+export class ResponseValidationError extends Error {
+    issues: string[];
+
+    constructor(issues: string[]) {
+        const shown = issues.slice(0, 3).join('; ');
+        super(`Invalid LLM response: ${shown}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`);
+        this.name = 'ResponseValidationError';
+        this.issues = issues;
+    }
+}
+
+export interface ParsedResponse {
+    value: unknown;
+    // Empty when the value matches the schema.
+    issues: string[];
+}
+
+// --- Text repair ---
+
+const stripCodeFences = (text: string): string => {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/);
+    return fenced ? fenced[1] : text;
+};
+
+// Drops anything before the first '{' or '[' (e.g. "Here is the JSON:").
+const stripLeadingProse = (text: string): string => {
+    const start = text.search(/[[{]/);
+    return start > 0 ? text.slice(start) : text;
+};
+
+const removeTrailingCommas = (text: string): string => text.replace(/,(\s*[}\]])/g, '$1');
+
+/**
+ * Closes a JSON document that was cut off mid-stream (typically by an output token limit).
+ * The text is cut back to the last point where a complete value ended, so a half-written
+ * array element or object property is dropped rather than guessed, and the brackets still
+ * open at that point are closed in order.
+ */
+export const closeTruncatedJson = (text: string): string => {
+    const stack: string[] = [];
+    let inString = false;
+    let escaped = false;
+    let safeEnd = 0;
+    let safeStack: string[] = [];
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') inString = true;
+        else if (ch === '{' || ch === '[') {
+            // An unfinished array element is dropped; any other container is kept, closed empty if need be.
+            const insideArray = stack[stack.length - 1] === ']';
+            stack.push(ch === '{' ? '}' : ']');
+            if (!insideArray) {
+                safeEnd = i + 1;
+                safeStack = [...stack];
+            }
+        } else if (ch === '}' || ch === ']') {
+            stack.pop();
+            safeEnd = i + 1;
+            safeStack = [...stack];
+        } else if (ch === ',') {
+            safeEnd = i;
+            safeStack = [...stack];
+        }
+    }
+
+    if (stack.length === 0 && !inString) return text;
+    return text.slice(0, safeEnd) + safeStack.reverse().join('');
+};
+
+export const repairJsonText = (text: string): string =>
+    closeTruncatedJson(removeTrailingCommas(stripLeadingProse(stripCodeFences(text).trim())));
+
+// --- Schema checks ---
+
+const describe = (value: unknown): string => value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+/**
+ * Returns a copy of the value with scalars coerced to the schema's type where unambiguous:
+ * numeric strings become numbers and "true"/"false" become booleans.
+ */
+export const coerceToSchema = (value: unknown, schema: ResponseSchema): unknown => {
+    switch (schema.type) {
+        case Type.NUMBER:
+        case Type.INTEGER:
+            if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) return Number(value);
+            return value;
+        case Type.BOOLEAN:
+            if (value === 'true' || value === 'false') return value === 'true';
+            return value;
+        case Type.ARRAY:
+            return Array.isArray(value) && schema.items ? value.map(item => coerceToSchema(item, schema.items!)) : value;
+        case Type.OBJECT:
+            if (typeof value !== 'object' || value === null || Array.isArray(value) || !schema.properties) return value;
+            return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+                [key, schema.properties![key] ? coerceToSchema(item, schema.properties![key]) : item]));
+        default:
+            return value;
+    }
+};
+
+// Lists every mismatch between the value and the schema as "<path>: <problem>".
+export const validateAgainstSchema = (value: unknown, schema: ResponseSchema, path = '$'): string[] => {
+    if (value === null || value === undefined) {
+        return schema.nullable ? [] : [`${path}: expected ${schema.type?.toLowerCase() ?? 'a value'}, got ${describe(value)}`];
+    }
+    switch (schema.type) {
+        case Type.STRING:
+            if (typeof value !== 'string') return [`${path}: expected string, got ${describe(value)}`];
+            return schema.enum && !schema.enum.includes(value) ? [`${path}: "${value}" is not one of ${schema.enum.join(', ')}`] : [];
+        case Type.NUMBER:
+            return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path}: expected number, got ${describe(value)}`];
+        case Type.INTEGER:
+            return Number.isInteger(value) ? [] : [`${path}: expected integer, got ${describe(value)}`];
+        case Type.BOOLEAN:
+            return typeof value === 'boolean' ? [] : [`${path}: expected boolean, got ${describe(value)}`];
+        case Type.ARRAY:
+            if (!Array.isArray(value)) return [`${path}: expected array, got ${describe(value)}`];
+            return schema.items ? value.flatMap((item, i) => validateAgainstSchema(item, schema.items!, `${path}[${i}]`)) : [];
+        case Type.OBJECT: {
+            if (typeof value !== 'object' || Array.isArray(value)) return [`${path}: expected object, got ${describe(value)}`];
+            const record = value as Record<string, unknown>;
+            const missing = (schema.required || []).filter(key => !(key in record)).map(key => `${path}.${key}: missing required field`);
+            const nested = Object.entries(schema.properties || {})
+                .filter(([key]) => key in record)
+                .flatMap(([key, propertySchema]) => validateAgainstSchema(record[key], propertySchema, `${path}.${key}`));
+            return [...missing, ...nested];
+        }
+        default:
+            return [];
+    }
+};
+
+/**
+ * Parses raw model output against its response schema, repairing what can be repaired
+ * (code fences, leading prose, trailing commas, truncation, numeric strings).
+ */
+export const parseStructuredResponse = (text: string, schema: ResponseSchema): ParsedResponse => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        try {
+            parsed = JSON.parse(repairJsonText(text));
+        } catch (e) {
+            return { value: undefined, issues: [`$: response is not valid JSON (${e instanceof Error ? e.message : 'parse error'})`] };
+        }
+    }
+    const value = coerceToSchema(parsed, schema);
+    return { value, issues: validateAgainstSchema(value, schema) };
+};
+
+// Appended to the original prompt when asking the model to correct an invalid response.
+export const buildCorrectionPrompt = (prompt: string, issues: string[]): string =>
+    `${prompt}\n\nYour previous response could not be used because it did not match the required JSON structure:\n${issues.slice(0, 20).map(issue => `- ${issue}`).join('\n')}\nRespond again with the complete JSON, fixing these problems.`;
@@ -0,0 +1,40 @@
+import type { RetryPolicy } from '../types';
+import { LlmRequestError } from './providers/common';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 5,
+    baseDelayMs: 2000,
+    maxDelayMs: 60000,
+};
+
+// Rate limits and transient server failures are worth retrying; bad requests and auth errors are not.
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export const isRetryableError = (error: unknown): error is LlmRequestError =>
+    error instanceof LlmRequestError && error.status !== undefined && RETRYABLE_STATUSES.has(error.status);
+
+/**
+ * Delay before the given retry (1-based: the first retry is attempt 2).
+ * A server-provided delay wins; otherwise exponential backoff with "equal jitter",
+ * i.e. a random value between half and all of the capped exponential delay.
+ */
+export const computeBackoffDelay = (policy: RetryPolicy, attempt: number, retryAfterMs?: number, random: () => number = Math.random): number => {
+    if (retryAfterMs !== undefined) return retryAfterMs;
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 2));
+    return Math.round(exponential / 2 + random() * exponential / 2);
+};
+
+export const sleep = (ms: number, signal: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DOMException('Aborted', 'AbortError'));
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+};
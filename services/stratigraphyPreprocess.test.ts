@@ -83,6 +83,41 @@ describe('preprocessText', () => {
     expect(candidates[0].name).toBe('Morrison Formation');
   });
 
+  it('should identify chronostratigraphic candidates with their chart position', () => {
+    const raw = 'Beds of the Ruby Ranch Member are early Albian. Marine shales of Late Cretaceous age and the Jurassic System are absent.';
+    const { candidates } = preprocessText(raw);
+    expect(candidates.map(c => [c.name, c.type])).toEqual([
+      ['Ruby Ranch Member', 'Member'],
+      ['early Albian', 'Stage'],
+      ['Late Cretaceous', 'Series'],
+      ['Jurassic System', 'System'],
+    ]);
+    expect(candidates[1].chrono).toEqual({ unit: 'Albian', parent: 'Lower Cretaceous', base: 113.2, top: 100.5, qualifier: 'Lower' });
+    expect(candidates[2].chrono).toMatchObject({ unit: 'Upper Cretaceous', parent: 'Cretaceous' });
+  });
+
+  it('should attach coordinates to the sections and wells named beside them', () => {
+    const raw = 'We logged the Ruby Ranch section (38°42′15″N, 110°12′W). Core came from the Federal 1-23 well located at UTM 12S 569561 4284252. Samples were taken at 39.1°N, 110.0°W.';
+    const { candidates, coordinates } = preprocessText(raw);
+    expect(coordinates).toHaveLength(3);
+    expect(candidates.map(c => [c.name, c.type])).toEqual([
+      ['Ruby Ranch section', 'OutcropSection'],
+      ['Federal 1-23 well', 'WellBorehole'],
+    ]);
+    expect(candidates[0].coordinates).toEqual({ latitude: 38.704167, longitude: -110.2, format: 'dms', text: '38°42′15″N, 110°12′W' });
+  });
+
+  it('should identify taxa and write out abbreviated genera', () => {
+    const raw = 'Bones of Tenontosaurus tilletti Ostrom, 1970 are common; T. tilletti juveniles occur below the Neogastroplites haasi Zone.';
+    const { candidates } = preprocessText(raw);
+    expect(candidates.map(c => [c.name, c.type])).toEqual([
+      ['Tenontosaurus tilletti', 'Taxon'],
+      ['Neogastroplites haasi', 'IndexFossil'],
+    ]);
+    expect(candidates[0].taxon).toEqual({ genus: 'Tenontosaurus', species: 'tilletti', authority: 'Ostrom, 1970', forms: ['T. tilletti'] });
+    expect(preprocessText('N. haasi is abundant.', ['Neogastroplites']).candidates[0].name).toBe('Neogastroplites haasi');
+  });
+
   it('should return an empty array when no candidates are found', () => {
      const raw = 'This text contains no stratigraphic units.';
      const { candidates } = preprocessText(raw);
@@ -1,18 +1,48 @@
 // Minimal text cleanup + candidate spotting for stratigraphy terms.
 // No external deps.
 
-export type StratType = 'Formation' | 'Member' | 'Group';
+import type { AbsoluteAgeValue, GeoCoordinate } from '../types';
+import { findChronoMentions, type ChronoRank } from './icsTimescale';
+import { parseAbsoluteAges } from './absoluteAges';
+import { parseCoordinates, type CoordinateMention } from './coordinates';
+import { findTaxonNames } from './taxonNames';
+
+export type StratType = 'Formation' | 'Member' | 'Group' | 'Stage' | 'Series' | 'System' | 'Location' | 'OutcropSection' | 'WellBorehole' | 'Taxon' | 'IndexFossil';
 export interface Candidate {
   name: string;
   type: StratType;
   index: number;   // offset in CLEAN text
   length: number;
   evidenceText: string;
+  chrono?: ChronoInfo;
+  coordinates?: GeoCoordinate;  // Location/OutcropSection/WellBorehole: WGS84 position given beside the name
+  taxon?: TaxonInfo;
+}
+
+/** The parts of a Taxon/IndexFossil candidate's name; `name` has the genus written out. */
+export interface TaxonInfo {
+  genus: string;
+  species?: string;
+  qualifier?: string;           // open nomenclature: cf., aff., ?, sp., spp., indet.
+  status?: string;              // e.g. "sp. nov."
+  authority?: string;           // e.g. "Kirkland, 1998"
+  forms: string[];              // other ways the text writes the name, e.g. "T. rex"
+}
+
+/** Where a Stage/Series/System candidate sits in the ICS chart. */
+export interface ChronoInfo {
+  unit: string;                 // canonical chart name, e.g. "Upper Cretaceous" for "Late Cretaceous"
+  parent?: string;
+  base: number;                 // Ma
+  top: number;                  // Ma
+  qualifier?: 'Lower' | 'Middle' | 'Upper';  // e.g. "early Aptian", where the chart has no finer unit
 }
 
 export interface PreprocessResult {
   cleanText: string;
   candidates: Candidate[];
+  ages: AbsoluteAgeValue[];  // offsets in CLEAN text
+  coordinates: CoordinateMention[];  // offsets in CLEAN text
 }
 
 /**
@@ -86,6 +116,130 @@ function extractStratCandidates(clean: string): Candidate[] {
   return dedupeCandidates(candidates);
 }
 
+// Chart ranks that become candidates; a subsystem (Pennsylvanian) is treated as a system.
+const CHRONO_CANDIDATE_TYPES: Partial<Record<ChronoRank, StratType>> = {
+  Stage: 'Stage',
+  Series: 'Series',
+  Subsystem: 'System',
+  System: 'System',
+};
+
+/**
+ * Extract Stage/Series/System mentions named in the ICS chart from CLEAN text.
+ * Examples caught: "Aptian", "Late Cretaceous" (=> Upper Cretaceous), "early Albian", "Jurassic System"
+ */
+function extractChronoCandidates(clean: string): Candidate[] {
+  const candidates: Candidate[] = [];
+  for (const mention of findChronoMentions(clean)) {
+    const type = CHRONO_CANDIDATE_TYPES[mention.unit.rank];
+    if (!type) continue;
+    const { index, text } = mention;
+    const start = Math.max(0, index - 120);
+    const end = Math.min(clean.length, index + text.length + 120);
+    const evidenceText = clean.slice(start, end).replace(/\s+/g, ' ').trim();
+    const { name: unit, parent, base, top } = mention.unit;
+    candidates.push({
+      name: text,
+      type,
+      index,
+      length: text.length,
+      evidenceText,
+      chrono: { unit, ...(parent ? { parent } : {}), base, top, ...(mention.qualifier ? { qualifier: mention.qualifier } : {}) },
+    });
+  }
+  return dedupeCandidates(candidates);
+}
+
+const SITE_TYPES: Record<string, StratType> = {
+  section: 'OutcropSection', outcrop: 'OutcropSection', quarry: 'OutcropSection',
+  well: 'WellBorehole', borehole: 'WellBorehole', core: 'WellBorehole',
+};
+
+const SITE_GAP = /^[\s,:(]*(?:(?:is\s+|lies\s+)?(?:located|situated)\s+)?(?:(?:at|near)\s+)?\(?\s*$/i;
+
+/**
+ * Name the places, sections and wells whose coordinates the text gives: the proper-noun
+ * phrase just before each coordinate in the same sentence, typed by its last word.
+ * Examples caught: "Ruby Ranch section (38°42′15″N, 110°12′W)", "Federal 1-23 well at UTM 12S ...", "Green River, 39.0°N 110.1°W"
+ */
+function extractSiteCandidates(clean: string, coordinates: CoordinateMention[]): Candidate[] {
+  const candidates: Candidate[] = [];
+  const nameToken = "(?:[A-Z][a-zA-Z'\\-]+|\\d[\\w\\-]*)";
+  const siteWords = Object.keys(SITE_TYPES).join('|');
+  const regex = new RegExp(`\\b[A-Z][a-zA-Z'\\-]+(?:\\s+${nameToken}){0,4}(?:\\s+(?:${siteWords}))?\\b`, 'g');
+
+  for (const { start: at, end: atEnd, ...coordinate } of coordinates) {
+    // Only the sentence before the coordinate, and only a name joined to it by punctuation or "(is) located at".
+    const sentence = clean.slice(Math.max(0, at - 150), at).split(/[.!?]\s+(?=[A-Z])/).pop() || '';
+    const offset = at - sentence.length;
+    const last = [...sentence.matchAll(regex)].pop();
+    if (!last || !SITE_GAP.test(sentence.slice(last.index! + last[0].length))) continue;
+
+    const leading = last[0].match(/^(?:(?:the|a|an|at|in|near|from|of)\s+)*/i)![0];
+    const name = last[0].slice(leading.length);
+    if (!name) continue;
+    const index = offset + last.index! + leading.length;
+    const start = Math.max(0, index - 120);
+    const end = Math.min(clean.length, atEnd + 120);
+    candidates.push({
+      name,
+      type: SITE_TYPES[name.split(/\s+/).pop()!.toLowerCase()] || 'Location',
+      index,
+      length: name.length,
+      evidenceText: clean.slice(start, end).replace(/\s+/g, ' ').trim(),
+      coordinates: coordinate,
+    });
+  }
+
+  return dedupeCandidates(candidates);
+}
+
+// "T. rex" or "T. cf. rex" from the start of an abbreviated mention, without its authority or status.
+function abbreviatedForm(text: string): string | undefined {
+  return text.match(/^\p{Lu}\.\s*(?:(?:cf\.|aff\.|\?)\s*)?[a-z]+\.?/u)?.[0];
+}
+
+/**
+ * Extract Taxon/IndexFossil names from CLEAN text, with abbreviated genera written out.
+ * Examples caught: "Tyrannosaurus rex", "T. rex" (=> Tyrannosaurus rex), "Iguanodon sp.", "Neogastroplites haasi Zone"
+ * `knownGenera` lists genera named earlier in the document, for abbreviations at the start of a chunk.
+ */
+function extractTaxonCandidates(clean: string, knownGenera: string[]): Candidate[] {
+  const byName = new Map<string, Candidate>();
+  for (const mention of findTaxonNames(clean, knownGenera)) {
+    const existing = byName.get(mention.name.toLowerCase());
+    if (existing) {
+      // Later mentions add their written forms and anything the first one lacked.
+      const taxon = existing.taxon!;
+      const form = abbreviatedForm(mention.text);
+      if (form && !taxon.forms.includes(form)) taxon.forms.push(form);
+      taxon.authority ??= mention.authority;
+      taxon.status ??= mention.status;
+      if (mention.indexFossil) existing.type = 'IndexFossil';
+      continue;
+    }
+    const { name, text, index, genus, species, qualifier, status, authority } = mention;
+    const start = Math.max(0, index - 120);
+    const end = Math.min(clean.length, index + text.length + 120);
+    byName.set(name.toLowerCase(), {
+      name,
+      type: mention.indexFossil ? 'IndexFossil' : 'Taxon',
+      index,
+      length: text.length,
+      evidenceText: clean.slice(start, end).replace(/\s+/g, ' ').trim(),
+      taxon: {
+        genus,
+        ...(species ? { species } : {}),
+        ...(qualifier ? { qualifier } : {}),
+        ...(status ? { status } : {}),
+        ...(authority ? { authority } : {}),
+        forms: abbreviatedForm(text) ? [abbreviatedForm(text)!] : [],
+      },
+    });
+  }
+  return [...byName.values()];
+}
+
 /**
  * Deduplicate by name + nearest index (keep first occurrence).
  */
@@ -104,10 +258,17 @@ function dedupeCandidates(list: Candidate[]): Candidate[] {
 /**
  * Full preprocessing pipeline.
  */
-export function preprocessText(raw: string): PreprocessResult {
+export function preprocessText(raw: string, knownGenera: string[] = []): PreprocessResult {
   const step1 = fixHyphenation(raw);
   const step2 = expandAbbreviations(step1);
   const cleanText = normalizeWhitespace(step2);
-  const candidates = extractStratCandidates(cleanText);
-  return { cleanText, candidates };
+  const ages = parseAbsoluteAges(cleanText);
+  const coordinates = parseCoordinates(cleanText);
+  const candidates = [
+    ...extractStratCandidates(cleanText),
+    ...extractChronoCandidates(cleanText),
+    ...extractSiteCandidates(cleanText, coordinates),
+    ...extractTaxonCandidates(cleanText, knownGenera),
+  ];
+  return { cleanText, candidates, ages, coordinates };
 }
@@ -0,0 +1,40 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect } from 'vitest';
+import { findTaxonNames } from './taxonNames';
+
+describe('findTaxonNames', () => {
+  it('reads binomials with their authority and status', () => {
+    const text = 'Eolambia caroljonesa Kirkland, 1998 and Cedarpelta bilbeyhallorum (Carpenter et al., 2001) occur with Moabosaurus utahensis sp. nov.';
+    expect(findTaxonNames(text)).toEqual([
+      { name: 'Eolambia caroljonesa', text: 'Eolambia caroljonesa Kirkland, 1998', index: 0, genus: 'Eolambia', species: 'caroljonesa', authority: 'Kirkland, 1998', indexFossil: false },
+      { name: 'Cedarpelta bilbeyhallorum', text: 'Cedarpelta bilbeyhallorum (Carpenter et al., 2001)', index: 40, genus: 'Cedarpelta', species: 'bilbeyhallorum', authority: 'Carpenter et al., 2001', indexFossil: false },
+      { name: 'Moabosaurus utahensis', text: 'Moabosaurus utahensis sp. nov.', index: 102, genus: 'Moabosaurus', species: 'utahensis', status: 'sp. nov.', indexFossil: false },
+    ]);
+  });
+
+  it('expands abbreviated genera to the last genus with that initial', () => {
+    const names = findTaxonNames('Tyrannosaurus rex and Tenontosaurus tilletti co-occur; T. tilletti is older. T. cf. rex was found above.');
+    expect(names.map(n => [n.text, n.name])).toEqual([
+      ['Tyrannosaurus rex', 'Tyrannosaurus rex'],
+      ['Tenontosaurus tilletti', 'Tenontosaurus tilletti'],
+      ['T. tilletti', 'Tenontosaurus tilletti'],
+      ['T. cf. rex', 'Tenontosaurus cf. rex'],
+    ]);
+    expect(findTaxonNames('N. haasi is abundant.', ['Neogastroplites'])[0].name).toBe('Neogastroplites haasi');
+  });
+
+  it('reads open nomenclature and biozones', () => {
+    const names = findTaxonNames('Iguanodon sp. and Deltapodus aff. brodricki lie below the Neogastroplites haasi Zone.');
+    expect(names.map(n => [n.name, n.qualifier, n.indexFossil])).toEqual([
+      ['Iguanodon sp.', 'sp.', false],
+      ['Deltapodus aff. brodricki', 'aff.', false],
+      ['Neogastroplites haasi', undefined, true],
+    ]);
+  });
+
+  it('skips ordinary capitalised phrases', () => {
+    expect(findTaxonNames('The strata of Utah area are Albian in age. This is famous. Cretaceous magma rose. Figure 3 shows Morrison beds (Kirkland, 1998).')).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+import { findChronoUnit } from './icsTimescale';
+
+// Recognises Linnaean names ("Tyrannosaurus rex", "Neogastroplites cf. haasi", "Iguanodon sp.",
+// "Eolambia caroljonesa Kirkland, 1998") and expands abbreviated genera ("T. rex") to the genus last
+// written out in full before them.
+
+export interface TaxonMention {
+    // The name with its genus written out, e.g. "Tyrannosaurus rex" for "T. rex".
+    name: string;
+    // The name as written.
+    text: string;
+    index: number;
+    genus: string;
+    // Absent for open nomenclature without an epithet ("Iguanodon sp.").
+    species?: string;
+    // Open nomenclature: "cf.", "aff." or "?" before the epithet, "sp.", "spp." or "indet." in its place.
+    qualifier?: string;
+    // "sp. nov.", "gen. nov.", "gen. et sp. nov." and the like.
+    status?: string;
+    authority?: string;
+    // Names of biozones ("Neogastroplites haasi Zone") are index fossils.
+    indexFossil: boolean;
+}
+
+// Capitalised words that start sentences or name things other than genera.
+const NOT_GENERA = new Set([
+    'the', 'this', 'these', 'those', 'that', 'there', 'it', 'its', 'in', 'on', 'at', 'as', 'an', 'our', 'we', 'their', 'both', 'each',
+    'all', 'some', 'most', 'many', 'such', 'from', 'with', 'for', 'by', 'of', 'to', 'and', 'or', 'but', 'if', 'when', 'where', 'while',
+    'fig', 'figs', 'figure', 'table', 'plate', 'section', 'formation', 'member', 'group', 'bed', 'beds', 'unit', 'zone', 'sample', 'samples',
+    'early', 'late', 'middle', 'lower', 'upper', 'north', 'south', 'east', 'west', 'lake', 'river', 'mount', 'cape',
+]);
+// Lower-case words with Latin-looking endings that are common in English prose.
+const NOT_EPITHETS = new Set([
+    'thus', 'plus', 'minus', 'bonus', 'status', 'focus', 'corpus', 'nexus', 'census', 'versus', 'apparatus', 'consensus', 'basis',
+    'analysis', 'axis', 'thesis', 'emphasis', 'genesis', 'diagenesis', 'this', 'area', 'data', 'strata', 'media', 'extra', 'ultra',
+    'formula', 'criteria', 'phenomena', 'fauna', 'flora', 'faunas', 'taxa', 'biota', 'idea', 'were', 'also', 'into', 'onto', 'via',
+    'was', 'has', 'his', 'its', 'is', 'crisis', 'museum', 'maximum', 'minimum', 'medium', 'spectrum', 'datum', 'stratum', 'calcium',
+    'sodium', 'magnesium', 'potassium', 'uranium', 'aluminum', 'aluminium', 'equilibrium', 'mesa', 'delta', 'lava', 'magma', 'tufa',
+    'caldera', 'sierra', 'plaza', 'lamina', 'alpha', 'beta', 'gamma', 'sigma', 'omega', 'lambda', 'theta', 'schema', 'camera', 'agenda',
+    'sea', 'tea', 'spa', 'complex', 'index', 'matrix', 'apex', 'flux', 'box', 'tax', 'wax', 'cortex', 'helix', 'suffix', 'prefix',
+    'appendix', 'annex', 'latex', 'reflex', 'vortex', 'syntax', 'climax', 'max', 'six',
+]);
+const LATIN_EPITHET = /^[a-z]{2,}(?:us|a|um|i|ae|is|oides|ii|x)$/;
+const isEpithet = (word: string): boolean => LATIN_EPITHET.test(word) && !NOT_EPITHETS.has(word) && !/ous$/.test(word);
+
+const QUALIFIER = '(?:(cf\\.|aff\\.|\\?)\\s*)?';
+const EPITHET = '([a-z]{3,}|spp?\\.|indet\\.)';
+const STATUS = '(?:,?\\s+(sp\\.\\s*nov\\.|n\\.\\s*sp\\.|gen\\.\\s*(?:et\\s*sp\\.\\s*)?nov\\.|comb\\.\\s*nov\\.|nom\\.\\s*nov\\.))?';
+const AUTHORITY = "(?:\\s+\\(?((?:\\p{Lu}[\\p{L}'’-]+)(?:(?:,\\s*|\\s+(?:&|and|et)\\s+)\\p{Lu}[\\p{L}'’-]+)*(?:\\s+et al\\.)?),?\\s+((?:1[789]|20)\\d{2})\\)?)?";
+const ZONE = '(\\s+(?:Zone|Subzone|Biozone|Assemblage Zone|Interval Zone|zone))?';
+const TAXON = new RegExp(`\\b(?:(\\p{Lu}[a-z]{2,})|(\\p{Lu})\\.)\\s+${QUALIFIER}${EPITHET}(?![\\p{L}])${STATUS}${AUTHORITY}${ZONE}`, 'gu');
+
+/**
+ * Taxon names in the text, in order, with any author-year citation that follows them. A binomial
+ * is accepted when its epithet looks Latin, or with open nomenclature or a nomenclatural status; an
+ * abbreviated genus takes the last genus with that initial written out earlier in the text
+ * or, failing that, in `knownGenera` (genera named earlier in the document).
+ */
+export const findTaxonNames = (text: string, knownGenera: string[] = []): TaxonMention[] => {
+    const genera = [...knownGenera];
+    const mentions: TaxonMention[] = [];
+    for (const match of text.matchAll(TAXON)) {
+        const [, fullGenus, initial, qualifier, epithet, status, authors, year, zone] = match;
+        const openNomenclature = !/^[a-z]+$/.test(epithet);
+        if (!openNomenclature && !isEpithet(epithet) && !status) continue;
+        if (fullGenus && (NOT_GENERA.has(fullGenus.toLowerCase()) || findChronoUnit(fullGenus))) continue;
+        const genus = fullGenus || [...genera].reverse().find(g => g.startsWith(initial));
+        if (fullGenus) genera.push(fullGenus);
+        mentions.push({
+            name: `${genus ?? `${initial}.`} ${qualifier ? `${qualifier} ` : ''}${epithet}`,
+            text: match[0].slice(0, match[0].length - (zone?.length ?? 0)),
+            index: match.index!,
+            genus: genus ?? `${initial}.`,
+            ...(openNomenclature ? {} : { species: epithet }),
+            ...(qualifier || openNomenclature ? { qualifier: qualifier || epithet } : {}),
+            ...(status ? { status: status.replace(/\s+/g, ' ') } : {}),
+            ...(authors ? { authority: `${authors}, ${year}` } : {}),
+            indexFossil: !!zone,
+        });
+    }
+    return mentions;
+};
@@ -0,0 +1,29 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect } from 'vitest';
+import { splitIntoWindows } from './textWindows';
+
+describe('splitIntoWindows', () => {
+
+  it('should return short text as a single window', () => {
+    expect(splitIntoWindows('Short text.', 100)).toEqual([{ offset: 0, text: 'Short text.' }]);
+  });
+
+  it('should break at paragraph boundaries and cover the whole text', () => {
+    const text = `${'a'.repeat(60)}\n\n${'b'.repeat(60)}\n\n${'c'.repeat(30)}`;
+    const windows = splitIntoWindows(text, 100);
+
+    expect(windows.map(w => w.text).join('')).toBe(text);
+    expect(windows[0].text.endsWith('\n')).toBe(true);
+    windows.forEach(w => {
+      expect(w.text.length).toBeLessThanOrEqual(100);
+      expect(text.slice(w.offset, w.offset + w.text.length)).toBe(w.text);
+    });
+  });
+
+  it('should cut hard when there is no break in the second half of the window', () => {
+    expect(splitIntoWindows('x'.repeat(250), 100).map(w => w.text.length)).toEqual([100, 100, 50]);
+  });
+
+});
@@ -0,0 +1,24 @@
+export interface TextWindow {
+    // Offset of the window's first character in the full text.
+    offset: number;
+    text: string;
+}
+
+/**
+ * Splits text into consecutive windows of at most maxChars, breaking at the last paragraph
+ * break (or line break, or space) before the limit so sentences are not cut in half.
+ */
+export const splitIntoWindows = (text: string, maxChars: number): TextWindow[] => {
+    const windows: TextWindow[] = [];
+    let offset = 0;
+    while (text.length - offset > maxChars) {
+        const slice = text.slice(offset, offset + maxChars);
+        const minBreak = Math.floor(maxChars / 2);
+        const breakAt = [slice.lastIndexOf('\n\n'), slice.lastIndexOf('\n'), slice.lastIndexOf(' ')].find(index => index >= minBreak);
+        const end = breakAt !== undefined ? breakAt + 1 : maxChars;
+        windows.push({ offset, text: text.slice(offset, offset + end) });
+        offset += end;
+    }
+    if (offset < text.length || windows.length === 0) windows.push({ offset, text: text.slice(offset) });
+    return windows;
+};
@@ -0,0 +1,51 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect } from 'vitest';
+import { createUsageLedger, estimateCost, findModelPrice, priceForConfig } from './usageAccounting';
+import type { LlmConfig, ModelPriceTable } from '../types';
+
+const PRICES: ModelPriceTable = {
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+};
+
+describe('findModelPrice', () => {
+  it('should prefer the longest matching prefix', () => {
+    expect(findModelPrice('gpt-4o-mini-2024-07-18', PRICES)).toBe(PRICES['gpt-4o-mini']);
+    expect(findModelPrice('gpt-4o-2024-08-06', PRICES)).toBe(PRICES['gpt-4o']);
+  });
+
+  it('should return undefined for unknown models', () => {
+    expect(findModelPrice('mystery-model', PRICES)).toBeUndefined();
+  });
+});
+
+describe('priceForConfig', () => {
+  it('should treat local servers as free, also when recorded through the mock provider', () => {
+    const config: LlmConfig = { apiKey: '', provider: 'mock', mockUpstream: 'local', model: 'gpt-4o', temperature: 0 };
+    expect(priceForConfig(config, PRICES)).toEqual({ inputPerMillion: 0, outputPerMillion: 0 });
+  });
+});
+
+describe('createUsageLedger', () => {
+  it('should accumulate tokens and cost per stage, per file and in total', () => {
+    const ledger = createUsageLedger(PRICES['gpt-4o']);
+    ledger.record('a.pdf', 'entities', { inputTokens: 1_000_000, outputTokens: 0 });
+    ledger.record('a.pdf', 'relationships', { inputTokens: 0, outputTokens: 100_000 });
+    ledger.record('b.pdf', 'entities', { inputTokens: 200_000, outputTokens: 0 });
+
+    const usage = ledger.summarize();
+    expect(usage.total).toEqual({ calls: 3, inputTokens: 1_200_000, outputTokens: 100_000, estimatedCost: 4 });
+    expect(usage.byStage.entities).toEqual({ calls: 2, inputTokens: 1_200_000, outputTokens: 0, estimatedCost: 3 });
+    expect(usage.byFile['a.pdf'].estimatedCost).toBeCloseTo(3.5);
+    expect(usage.byFile['b.pdf'].calls).toBe(1);
+  });
+
+  it('should report a null cost when the model has no price', () => {
+    const ledger = createUsageLedger(undefined);
+    ledger.record('a.pdf', 'structuring', { inputTokens: 10, outputTokens: 5 });
+    expect(ledger.summarize().total).toEqual({ calls: 1, inputTokens: 10, outputTokens: 5, estimatedCost: null });
+    expect(estimateCost({ inputTokens: 10, outputTokens: 5 }, undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import type { LlmConfig, LlmStage, ModelPrice, ModelPriceTable, RunUsage, TokenUsage, UsageTotals } from '../types';
+
+// Self-hosted models cost nothing per token.
+const FREE: ModelPrice = { inputPerMillion: 0, outputPerMillion: 0 };
+
+/**
+ * Finds the price entry for a model: exact name first, then the longest table key
+ * the model name starts with (dated or preview variants share their base model's price).
+ */
+export const findModelPrice = (model: string, prices: ModelPriceTable): ModelPrice | undefined => {
+    if (prices[model]) return prices[model];
+    const key = Object.keys(prices)
+        .filter(name => model.startsWith(name))
+        .sort((a, b) => b.length - a.length)[0];
+    return key ? prices[key] : undefined;
+};
+
+export const priceForConfig = (config: LlmConfig, prices: ModelPriceTable): ModelPrice | undefined => {
+    const provider = config.provider === 'mock' ? config.mockUpstream : config.provider;
+    return provider === 'local' ? FREE : findModelPrice(config.model, prices);
+};
+
+export const estimateCost = (usage: TokenUsage, price: ModelPrice | undefined): number | null => {
+    if (!price) return null;
+    return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+export const emptyUsageTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, estimatedCost: 0 });
+
+const addToTotals = (totals: UsageTotals, usage: TokenUsage, cost: number | null): UsageTotals => ({
+    calls: totals.calls + 1,
+    inputTokens: totals.inputTokens + usage.inputTokens,
+    outputTokens: totals.outputTokens + usage.outputTokens,
+    estimatedCost: totals.estimatedCost === null || cost === null ? null : totals.estimatedCost + cost,
+});
+
+export interface UsageLedger {
+    record: (fileName: string, stage: LlmStage, usage: TokenUsage) => void;
+    summarize: () => RunUsage;
+}
+
+// Accumulates token usage of one extraction run, per stage and per file.
+export const createUsageLedger = (price: ModelPrice | undefined): UsageLedger => {
+    let usage: RunUsage = { total: emptyUsageTotals(), byStage: {}, byFile: {} };
+
+    const record = (fileName: string, stage: LlmStage, tokens: TokenUsage) => {
+        const cost = estimateCost(tokens, price);
+        usage = {
+            total: addToTotals(usage.total, tokens, cost),
+            byStage: { ...usage.byStage, [stage]: addToTotals(usage.byStage[stage] || emptyUsageTotals(), tokens, cost) },
+            byFile: { ...usage.byFile, [fileName]: addToTotals(usage.byFile[fileName] || emptyUsageTotals(), tokens, cost) },
+        };
+    };
+
+    return { record, summarize: () => usage };
+};
@@ -6,8 +6,83 @@ export interface Triple {
   object: string;
   evidenceText: string;
   source: string;
+  // Citation of the paper the triple comes from, when its bibliographic metadata is known.
+  citation?: string;
+  doi?: string;
   confidence?: number;
   justification?: string;
+  // Chunks the triple was extracted from; several when duplicates were merged across chunks.
+  provenance?: ChunkProvenance[];
+  // Prior works cited in the evidence sentence: a triple that cites one restates earlier
+  // work rather than reporting the paper's own observation.
+  cites?: CitedWork[];
+  // The object read as a numeric age, when it is one ("112.5 ± 0.4 Ma").
+  objectAge?: AbsoluteAgeValue;
+  // For measurement predicates (hasThickness, hasDepthTop_m, ...), the object as a value in the
+  // predicate's unit, or why the object is not a valid value for the predicate.
+  quantity?: QuantityValue;
+  literalIssue?: string;
+}
+
+// A position read from text and normalised to WGS84 decimal degrees.
+export interface GeoCoordinate {
+  latitude: number;
+  longitude: number;
+  // How the position was written: degrees-minutes-seconds, decimal degrees or UTM.
+  format: 'dms' | 'decimal' | 'utm';
+  text: string;
+}
+
+// A measured quantity converted to SI units; `value` is the midpoint of a range such as "15–20 m".
+export interface QuantityValue {
+  value: number;
+  unit: string;
+  range?: [number, number];
+  // The quantity as written.
+  text: string;
+}
+
+// A numeric age read from text, in years before present, so ages can be sorted and compared.
+export interface AbsoluteAgeValue {
+  // The midpoint for a range such as "15–12 ka".
+  years: number;
+  // Uncertainty below and above `years`; equal for "±".
+  minusYears?: number;
+  plusYears?: number;
+  sigma?: number;
+  // Older and younger bounds of a range.
+  range?: [number, number];
+  approximate?: boolean;
+  // The span as written and its offsets in the text it was read from.
+  text: string;
+  start: number;
+  end: number;
+}
+
+// An entry of a paper's reference list; `authors` holds surnames.
+export interface ReferenceEntry {
+  id: string;
+  number?: number;
+  authors: string[];
+  year?: number;
+  yearSuffix?: string;
+  title?: string;
+  doi?: string;
+  text: string;
+}
+
+export interface CitedWork {
+  // The in-text citation as written, e.g. "Kirkland et al., 1997".
+  citation: string;
+  // The reference-list entry it resolves to, when one matches.
+  reference?: ReferenceEntry;
+}
+
+export interface ChunkProvenance {
+  chunkId: string;
+  sectionPath: string[];
+  kind: DocumentChunk['kind'];
+  pages?: [number, number];
 }
 
 export interface ExtractedEntity {
@@ -16,6 +91,10 @@ export interface ExtractedEntity {
   selected: boolean;
   confidence?: number;
   justification?: string;
+  // For AbsoluteAgeValue entities, the name read as a numeric age.
+  age?: AbsoluteAgeValue;
+  // For places, sections and wells, the coordinates given next to their name in the text.
+  coordinates?: GeoCoordinate;
 }
 
 export interface DocumentChunk {
@@ -24,6 +103,55 @@ export interface DocumentChunk {
     kind: 'body' | 'caption' | 'table' | 'methods' | 'references';
     content: string;
     selected: boolean;
+    // Offsets of the content in the document's raw text.
+    start?: number;
+    end?: number;
+    // First and last PDF page the content comes from.
+    pages?: [number, number];
+    // The table rebuilt from the PDF layout, for table chunks.
+    table?: TableData;
+    // Repairs made to the chunk's boundaries, when they came from the LLM.
+    warnings?: string[];
+}
+
+export interface TableData {
+    caption?: string;
+    header: string[];
+    rows: string[][];
+    page?: number;
+}
+
+// Mean word confidence (0-100) of a page read by OCR; `low` flags pages worth checking.
+export interface OcrPageConfidence {
+    page: number;
+    confidence: number;
+    low: boolean;
+}
+
+// Page furniture removed while parsing a PDF, one entry per distinct line.
+export interface RemovedPageText {
+    reason: 'running' | 'pageNumber' | 'boilerplate';
+    text: string;
+    pages: number[];
+}
+
+export interface BibliographicMetadata {
+    title?: string;
+    authors: string[];
+    year?: number;
+    journal?: string;
+    doi?: string;
+    // 'document' when read from the file itself, 'library' when matched in the reference
+    // library, 'user' once edited by hand (later runs then keep it).
+    source: 'document' | 'library' | 'user';
+}
+
+export interface ChunkCoverage {
+    // Share of the raw text's non-whitespace characters that fall inside some chunk, 0-1.
+    coverage: number;
+    gaps: number;
+    uncoveredChars: number;
+    repairedChunks: number;
 }
 
 export interface Predicate {
@@ -54,7 +182,16 @@ export enum View {
   Prompts,
 }
 
-export type LLMProvider = 'gemini' | 'openai' | 'anthropic';
+export type LLMProvider = 'gemini' | 'openai' | 'anthropic' | 'local' | 'mock';
+
+// Providers that talk to a real model; the 'mock' provider records from or replays one of these.
+export type UpstreamLLMProvider = Exclude<LLMProvider, 'mock'>;
+
+export type MockProviderMode = 'record' | 'replay';
+
+// How a local OpenAI-compatible server is asked for JSON. 'auto' probes native
+// JSON-schema support first and falls back to grammar-constrained, then prompt-enforced output.
+export type StructuredOutputMode = 'auto' | 'json_schema' | 'grammar' | 'prompt';
 
 export type ExtractionStep =
   | 'ready'
@@ -75,6 +212,37 @@ export interface TurboOutput {
     triples: Omit<Triple, 'source'>[];
 }
 
+export type LlmStage = 'structuring' | 'paperCore' | 'entities' | 'relationships';
+
+// How documents are split into chunks: by the LLM, by the local heading heuristic, or by the LLM
+// with the heuristic taking over when LLM structuring fails.
+export type StructuringMethod = 'llm' | 'heuristic' | 'llmWithFallback';
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+  // USD; null when some calls used a model missing from the price table.
+  estimatedCost: number | null;
+}
+
+export interface RunUsage {
+  total: UsageTotals;
+  byStage: Partial<Record<LlmStage, UsageTotals>>;
+  byFile: Record<string, UsageTotals>;
+}
+
+// USD per million tokens.
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export type ModelPriceTable = Record<string, ModelPrice>;
+
 export interface ProcessingStats {
   filesProcessed: number;
   entitiesFound: number;
@@ -84,6 +252,7 @@ export interface ProcessingStats {
   relationshipExtractionDuration?: number;
   entityTypeCounts: Record<string, number>;
   predicateTypeCounts: Record<string, number>;
+  usage?: RunUsage;
 }
 
 export interface PaperCore {
@@ -144,11 +313,29 @@ export interface SchemaProposal {
   };
 }
 
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Shared budget for all LLM calls of a run; 0 means "no limit".
+export interface RequestLimits {
+  maxInFlight: number;
+  requestsPerMinute: number;
+}
+
 export interface LlmConfig {
   apiKey: string;
   provider: LLMProvider;
   model: string;
   temperature: number;
+  baseUrl?: string;
+  structuredOutputMode?: StructuredOutputMode;
+  mockMode?: MockProviderMode;
+  mockUpstream?: UpstreamLLMProvider;
+  retry?: RetryPolicy;
+  requestLimits?: RequestLimits;
 }
 
 export interface PromptVersion {
@@ -12,6 +12,16 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      build: {
+        rollupOptions: {
+          output: {
+            // OCR language data keeps its name: Tesseract looks it up as "<langPath>/eng.traineddata.gz".
+            assetFileNames: (asset) => asset.names.some(name => name.endsWith('.traineddata.gz'))
+              ? 'assets/tesseract/[name][extname]'
+              : 'assets/[name]-[hash][extname]',
+          }
+        }
       }
     };
 });